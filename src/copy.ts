@@ -0,0 +1,182 @@
+import { DatabaseError } from './database-error.js';
+import { EventEmitter } from './event-emitter.js';
+import { toBuffer } from './pg-types.js';
+import type { Statement } from './statements.js';
+
+const noop = () => {};
+
+// message types of the copy sub-protocol
+const copyData = 0x64; // d
+const copyDone = 0x63; // c
+const copyOutResponse = 0x48; // H
+
+const headerLength = 5;
+
+// the last `FROM STDIN`/`TO STDOUT` of the statement, the ones before can only be part of a query being copied
+const stdio = /\b(FROM\s+STDIN|TO\s+STDOUT)\b(?![\s\S]*\b(?:FROM\s+STDIN|TO\s+STDOUT)\b)/i;
+
+/**
+ * Whether a statement copies from `STDIN` or to `STDOUT`, which PGlite can't do.
+ */
+export const isStdioCopy = (stmt: Statement | undefined) => !!stmt && 'CopyStmt' in stmt && !stmt.CopyStmt.filename && !stmt.CopyStmt.is_program;
+
+/**
+ * Points `COPY ... FROM STDIN`/`TO STDOUT` at `/dev/blob`, PGlite's stand-in for them, which takes the data from the `blob` query option
+ * and puts the copied data in the `blob` of the result.
+ */
+export const toBlobCopy = (sql: string) => sql.replace(stdio, match => `${match.split(/\s+/)[0]} '/dev/blob'`);
+
+type CopyResult = { rowCount: number | null; blob?: Blob };
+
+type RunCopy = (sql: string, blob?: Blob) => Promise<CopyResult>;
+
+/**
+ * The part of pg-copy-streams' `from()` stream the driver relies on.
+ */
+export type CopyFromStreamLike = {
+    text: string;
+    submit: (connection: any) => void;
+    handleCopyInResponse: (connection: any) => void;
+    handleCommandComplete: (message: { text: string }) => void;
+    handleReadyForQuery: () => void;
+    handleError: (error: Error) => void;
+};
+
+/**
+ * The part of pg-copy-streams' `to()` stream the driver relies on.
+ */
+export type CopyToStreamLike = Omit<CopyFromStreamLike, 'handleCopyInResponse'>;
+
+export type CopyStreamLike = CopyFromStreamLike | CopyToStreamLike;
+
+export const isCopyStream = (value: unknown): value is CopyStreamLike =>
+    typeof (value as Partial<CopyStreamLike>).submit === 'function' &&
+    typeof (value as Partial<CopyStreamLike>).handleCommandComplete === 'function' &&
+    typeof (value as Partial<CopyStreamLike>).text === 'string';
+
+const isCopyFromStream = (stream: CopyStreamLike): stream is CopyFromStreamLike =>
+    typeof (stream as Partial<CopyFromStreamLike>).handleCopyInResponse === 'function';
+
+const commandComplete = (result: CopyResult) => ({ text: `COPY ${result.rowCount ?? 0}` });
+
+/**
+ * Takes the place of node-postgres' connection for a `COPY ... FROM STDIN` stream, collecting the CopyData messages it writes until CopyDone.
+ */
+class CopyInConnection {
+    public readonly stream = { write: (data: Uint8Array) => this.write(data), once: noop };
+    private readonly chunks: Uint8Array[] = [];
+    private header = new Uint8Array(0);
+    private remaining = 0;
+
+    constructor(private readonly onEnd: (data: Blob | Error) => void) {}
+
+    public query(_text: string) {}
+
+    // the stream was destroyed, postgres would answer with this error
+    public sendCopyFail(message: string) {
+        this.onEnd(new DatabaseError(`COPY from stdin failed: ${message}`, { severity: 'ERROR', code: '57014' }));
+    }
+
+    private write(data: Uint8Array): boolean {
+        let offset = 0;
+        while (offset < data.length) {
+            if (this.remaining > 0) {
+                const length = Math.min(this.remaining, data.length - offset);
+                this.chunks.push(data.subarray(offset, offset + length));
+                this.remaining -= length;
+                offset += length;
+                continue;
+            }
+
+            const headerBytes = data.subarray(offset, offset + headerLength - this.header.length);
+            this.header = Uint8Array.from([...this.header, ...headerBytes]);
+            offset += headerBytes.length;
+            if (this.header.length < headerLength) break;
+
+            const [code] = this.header;
+            this.remaining = new DataView(this.header.buffer).getUint32(1) - 4;
+            this.header = new Uint8Array(0);
+
+            if (code === copyDone) this.onEnd(new Blob(this.chunks));
+            if (code !== copyData) this.remaining = 0;
+        }
+        return true;
+    }
+}
+
+/**
+ * Takes the place of node-postgres' socket for a `COPY ... TO STDOUT` stream, which reads the copy sub-protocol from it.
+ */
+class CopyOutSocket extends EventEmitter {
+    private readonly messages: Uint8Array[] = [];
+
+    constructor() {
+        super();
+        // stands in for node-postgres' own listener, which the stream takes over while copying
+        this.on('data', noop);
+    }
+
+    public read(): Uint8Array | null {
+        return this.messages.shift() ?? null;
+    }
+
+    public pause() {}
+
+    public resume() {}
+
+    public write(code: number, payload = new Uint8Array(0)) {
+        const message = new Uint8Array(headerLength + payload.length);
+        message[0] = code;
+        new DataView(message.buffer).setUint32(1, payload.length + 4);
+        message.set(payload, headerLength);
+        this.messages.push(toBuffer(message));
+        this.emit('readable');
+    }
+}
+
+const copyOutChunkSize = 64 * 1024;
+
+/**
+ * Runs a pg-copy-streams stream against PGlite through `/dev/blob`. Data written to a `from()` stream is collected and copied in once the stream ends,
+ * the data of a `to()` stream is copied out at once and then read from the stream.
+ */
+export const submitCopyStream = <T extends CopyStreamLike>(stream: T, run: RunCopy): T => {
+    const sql = toBlobCopy(stream.text);
+
+    if (isCopyFromStream(stream)) {
+        const connection = new CopyInConnection(data => {
+            if (data instanceof Error) {
+                stream.handleError(data);
+                return;
+            }
+
+            run(sql, data).then(
+                result => {
+                    stream.handleCommandComplete(commandComplete(result));
+                    stream.handleReadyForQuery();
+                },
+                error => stream.handleError(error),
+            );
+        });
+        stream.submit(connection);
+        stream.handleCopyInResponse(connection);
+        return stream;
+    }
+
+    const socket = new CopyOutSocket();
+    stream.submit({ stream: socket, query: noop });
+    run(sql).then(
+        async result => {
+            stream.handleCommandComplete(commandComplete(result));
+
+            const data = new Uint8Array((await result.blob?.arrayBuffer()) ?? new ArrayBuffer(0));
+            socket.write(copyOutResponse, new Uint8Array(3));
+            for (let offset = 0; offset < data.length; offset += copyOutChunkSize) socket.write(copyData, data.subarray(offset, offset + copyOutChunkSize));
+            socket.write(copyDone);
+
+            stream.handleReadyForQuery();
+        },
+        error => stream.handleError(error),
+    );
+    return stream;
+};
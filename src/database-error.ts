@@ -0,0 +1,123 @@
+type NoticeOrErrorFields = {
+    severity?: string;
+    code?: string;
+    detail?: string;
+    hint?: string;
+    position?: string;
+    internalPosition?: string;
+    internalQuery?: string;
+    where?: string;
+    schema?: string;
+    table?: string;
+    column?: string;
+    dataType?: string;
+    constraint?: string;
+    file?: string;
+    line?: string;
+    routine?: string;
+};
+
+// shape of the errors thrown by the pg-parser addon
+type ParserError = {
+    cursorPosition?: number;
+    fileName?: string;
+    functionName?: string;
+    lineNumber?: number;
+};
+
+const fieldNames: (keyof NoticeOrErrorFields)[] = [
+    'severity',
+    'code',
+    'detail',
+    'hint',
+    'position',
+    'internalPosition',
+    'internalQuery',
+    'where',
+    'schema',
+    'table',
+    'column',
+    'dataType',
+    'constraint',
+    'file',
+    'line',
+    'routine',
+];
+
+/**
+ * Mirrors `DatabaseError` from node-postgres (pg-protocol), so code written against the `pg` driver
+ * (and TypeORM's `QueryFailedError`, which copies these fields) behaves the same under PGlite.
+ * Additionally keeps the failing `query` and its `parameters` around for debugging.
+ */
+export class DatabaseError extends Error implements NoticeOrErrorFields {
+    public override name = 'error';
+    public severity: string | undefined;
+    public code: string | undefined;
+    public detail: string | undefined;
+    public hint: string | undefined;
+    public position: string | undefined;
+    public internalPosition: string | undefined;
+    public internalQuery: string | undefined;
+    public where: string | undefined;
+    public schema: string | undefined;
+    public table: string | undefined;
+    public column: string | undefined;
+    public dataType: string | undefined;
+    public constraint: string | undefined;
+    public file: string | undefined;
+    public line: string | undefined;
+    public routine: string | undefined;
+    public query: string | undefined;
+    public parameters: unknown[] | undefined;
+
+    constructor(message: string, fields: NoticeOrErrorFields = {}, options?: { cause?: unknown; query?: string; parameters?: unknown[] }) {
+        super(message, { cause: options?.cause });
+        for (const field of fieldNames) this[field] = fields[field];
+        this.query = options?.query;
+        this.parameters = options?.parameters;
+    }
+}
+
+const isDatabaseErrorLike = (error: unknown): error is Error & NoticeOrErrorFields =>
+    error instanceof Error && typeof (error as NoticeOrErrorFields).code === 'string' && typeof (error as NoticeOrErrorFields).severity === 'string';
+
+/**
+ * Converts whatever was thrown while running a query into a `DatabaseError`.
+ *  - errors coming from postgres itself keep all of their fields
+ *  - pg-parser failures become `42601 syntax_error`, like postgres would report them
+ *  - anything else becomes `XX000 internal_error`
+ */
+export const toDatabaseError = (error: unknown, query: string, parameters?: unknown[]): DatabaseError => {
+    if (error instanceof DatabaseError) {
+        error.query ??= query;
+        error.parameters ??= parameters;
+        return error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const options = { cause: error, query, parameters };
+
+    if (isDatabaseErrorLike(error)) {
+        const databaseError = new DatabaseError(message, error, options);
+        if (error.stack) databaseError.stack = error.stack;
+        return databaseError;
+    }
+
+    const parserError = error as ParserError | null;
+    if (typeof parserError?.cursorPosition === 'number') {
+        return new DatabaseError(
+            message,
+            {
+                severity: 'ERROR',
+                code: '42601',
+                position: String(parserError.cursorPosition),
+                file: parserError.fileName,
+                line: parserError.lineNumber === undefined ? undefined : String(parserError.lineNumber),
+                routine: parserError.functionName,
+            },
+            options,
+        );
+    }
+
+    return new DatabaseError(message, { severity: 'ERROR', code: 'XX000' }, options);
+};
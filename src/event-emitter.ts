@@ -0,0 +1,78 @@
+type Listener = (...args: any[]) => void;
+
+type Entry = { listener: Listener; once: boolean };
+
+/**
+ * The part of node's `EventEmitter` clients and pools of node-postgres are used through, so the driver doesn't need `node:events`.
+ * Like node's, it emits `removeListener` after a listener is removed and throws `error` events nobody listens to.
+ */
+export class EventEmitter {
+    private readonly events = new Map<string | symbol, Entry[]>();
+
+    public on(event: string | symbol, listener: Listener): this {
+        return this.add(event, listener, false);
+    }
+
+    public addListener(event: string | symbol, listener: Listener): this {
+        return this.add(event, listener, false);
+    }
+
+    public once(event: string | symbol, listener: Listener): this {
+        return this.add(event, listener, true);
+    }
+
+    public off(event: string | symbol, listener: Listener): this {
+        // the last registration goes first, like with node
+        const entry = (this.events.get(event) ?? []).filter(registered => registered.listener === listener).at(-1);
+        return entry ? this.remove(event, entry) : this;
+    }
+
+    public removeListener(event: string | symbol, listener: Listener): this {
+        return this.off(event, listener);
+    }
+
+    public removeAllListeners(event?: string | symbol): this {
+        const events = event === undefined ? [...this.events.keys()] : [event];
+        for (const name of events) {
+            for (const entry of [...(this.events.get(name) ?? [])].reverse()) this.remove(name, entry);
+        }
+        return this;
+    }
+
+    public emit(event: string | symbol, ...args: unknown[]): boolean {
+        const listeners = this.events.get(event);
+        if (!listeners?.length) {
+            if (event === 'error') throw args[0] instanceof Error ? args[0] : new Error(`unhandled error event: ${String(args[0])}`);
+            return false;
+        }
+
+        // the list is replaced rather than changed when listeners are added or removed, so emitting goes over the listeners at the time of the call
+        for (const entry of listeners) {
+            if (entry.once) this.remove(event, entry);
+            entry.listener.apply(this, args);
+        }
+        return true;
+    }
+
+    public listenerCount(event: string | symbol): number {
+        return this.events.get(event)?.length ?? 0;
+    }
+
+    public listeners(event: string | symbol): Listener[] {
+        return (this.events.get(event) ?? []).map(({ listener }) => listener);
+    }
+
+    private remove(event: string | symbol, entry: Entry): this {
+        const remaining = (this.events.get(event) ?? []).filter(registered => registered !== entry);
+        if (remaining.length) this.events.set(event, remaining);
+        else this.events.delete(event);
+
+        this.emit('removeListener', event, entry.listener);
+        return this;
+    }
+
+    private add(event: string | symbol, listener: Listener, once: boolean): this {
+        this.events.set(event, [...(this.events.get(event) ?? []), { listener, once }]);
+        return this;
+    }
+}
@@ -0,0 +1,106 @@
+import type { Extension, Extensions, PGliteInterface } from '@electric-sql/pglite';
+import { DatabaseError } from './database-error.js';
+import type { Statement } from './statements.js';
+
+/**
+ * The modules PGlite exports its extensions from, across the versions the driver supports. A version without one of them skips it.
+ */
+const extensionModules = [
+    ...[
+        'adminpack',
+        'amcheck',
+        'auto_explain',
+        'bloom',
+        'btree_gin',
+        'btree_gist',
+        'citext',
+        'cube',
+        'dict_int',
+        'dict_xsyn',
+        'earthdistance',
+        'file_fdw',
+        'fuzzystrmatch',
+        'hstore',
+        'intarray',
+        'isn',
+        'lo',
+        'ltree',
+        'moddatetime',
+        'pageinspect',
+        'pg_buffercache',
+        'pg_freespacemap',
+        'pg_stat_statements',
+        'pg_surgery',
+        'pg_trgm',
+        'pg_visibility',
+        'pg_walinspect',
+        'pgcrypto',
+        'seg',
+        'tablefunc',
+        'tcn',
+        'tsm_system_rows',
+        'tsm_system_time',
+        'unaccent',
+        'uuid_ossp',
+    ].map(name => ({ name, path: `@electric-sql/pglite/contrib/${name}` })),
+    { name: 'vector', path: '@electric-sql/pglite/vector' },
+];
+
+let shippedExtensions: Promise<Record<string, Extension>> | undefined;
+
+/**
+ * The extensions the installed PGlite exports, imported once.
+ */
+export const getShippedExtensions = (): Promise<Record<string, Extension>> => {
+    shippedExtensions ??= Promise.all(
+        extensionModules.map(async ({ name, path }): Promise<[string, Extension][]> => {
+            const extension = ((await import(path).catch(() => undefined)) as Record<string, Extension> | undefined)?.[name];
+            return extension ? [[name, extension]] : [];
+        }),
+    ).then(extensions => Object.fromEntries(extensions.flat()));
+    return shippedExtensions;
+};
+
+/**
+ * PGlite options loading every extension PGlite ships through its `extensions` option, next to the ones already listed there,
+ * so a `CREATE EXTENSION` finds them. PGlite only installs their files once the instance starts and postgres loads them once they're created.
+ */
+export const withShippedExtensions = async <T extends { extensions?: Extensions }>(options: T | undefined): Promise<T> =>
+    ({ ...options, extensions: { ...(await getShippedExtensions()), ...options?.extensions } }) as T;
+
+const notAvailableError = async (name: string) => {
+    const shipped = Object.entries(await getShippedExtensions());
+    const module = extensionModules.find(({ name: moduleName }) => shipped.some(([key, extension]) => key === moduleName && extension.name === name));
+    if (module) {
+        // only instances the driver didn't create can miss them
+        return new DatabaseError(`extension "${name}" isn't loaded into the PGlite instance`, {
+            severity: 'ERROR',
+            code: '0A000',
+            hint: `add it to the extensions the PGlite instance is created with, from ${module.path}`,
+        });
+    }
+
+    return new DatabaseError(`extension "${name}" is not available in PGlite`, {
+        severity: 'ERROR',
+        code: '0A000',
+        hint: `PGlite ships these extensions: ${shipped
+            .map(([, extension]) => extension.name)
+            .sort()
+            .join(', ')}`,
+    });
+};
+
+/**
+ * Checks that the extensions `CREATE EXTENSION` statements ask for are available, before postgres fails with a less helpful error.
+ * An extension PGlite doesn't ship fails with a `0A000 feature_not_supported` error naming it.
+ */
+export const checkRequestedExtensions = async (connection: PGliteInterface, statements: (Statement | undefined)[]) => {
+    const names = statements.flatMap(stmt => (stmt && 'CreateExtensionStmt' in stmt ? [stmt.CreateExtensionStmt.extname] : []));
+    if (!names.length) return;
+
+    const { rows } = await connection.query<{ name: string }>('SELECT name FROM pg_available_extensions', [], { rowMode: 'object' });
+    const available = new Set(rows.map(({ name }) => name));
+    for (const name of names) {
+        if (!available.has(name)) throw await notAvailableError(name);
+    }
+};
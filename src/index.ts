@@ -1 +1,14 @@
-export { PGliteDriver } from './pglite-driver.js';
+export { DatabaseError } from './database-error.js';
+export type { QueryEndEvent, QueryErrorEvent, QueryHooks, QueryStartEvent } from './instrumentation.js';
+export { liveFind, liveQuery, type LiveQueryChanges, type LiveQueryOptions, type LiveQuerySubscription, type LiveQueryUpdate } from './live-queries.js';
+export { openTelemetryHooks, type OpenTelemetryHooksOptions, type TelemetrySpan, type TelemetryTracer } from './opentelemetry.js';
+export { PostgresInterval } from './pg-types.js';
+export { PGliteDriver, type PGliteDriverInstance, type PGliteDriverOptions, type PGliteSource, type QueryConfig } from './pglite-driver.js';
+export { PGliteQueryStream } from './pglite-query-stream.js';
+export { PGliteCursor } from './query-stream.js';
+export type { PoolCredentials, ReplicationOptions } from './replication.js';
+export type { ExplainSlowQueriesOptions, SlowQuery, SlowQueryReport } from './slow-queries.js';
+export { PGliteSnapshot } from './snapshot.js';
+export { SqlImportError, type SqlImportOptions, type SqlImportProgress, type SqlImportResult } from './sql-import.js';
+export type { TenantOptions } from './tenants.js';
+export { createTestDataSource, prepareTestTemplate, type TestTemplateOptions, useTestDataSource, useTestTransactions } from './testing.js';
@@ -0,0 +1,88 @@
+import type { DatabaseError } from './database-error.js';
+
+export type QueryStartEvent = {
+    /**
+     * Identifies the query across its start and end (or error) event.
+     */
+    queryId: number;
+    sql: string;
+    params: unknown[] | undefined;
+    /**
+     * Command tag of the (last) statement, e.g. `SELECT` or `INSERT`, `undefined` when the SQL couldn't be parsed.
+     */
+    command: string | undefined;
+};
+
+export type QueryEndEvent = QueryStartEvent & {
+    /**
+     * Milliseconds since the query was issued, including the time it waited for the PGlite session.
+     */
+    duration: number;
+    /**
+     * Row count of the (last) statement, as reported by node-postgres.
+     */
+    rowCount: number | null;
+};
+
+export type QueryErrorEvent = QueryStartEvent & {
+    duration: number;
+    error: DatabaseError;
+};
+
+/**
+ * Called for every query issued through the driver, including multi statement queries and the batches of streams.
+ * Each query emits `onQueryStart` followed by either `onQueryEnd` or `onQueryError`.
+ * Errors thrown by the hooks are ignored, so instrumentation can't break queries.
+ */
+export type QueryHooks = {
+    onQueryStart?: (event: QueryStartEvent) => void;
+    onQueryEnd?: (event: QueryEndEvent) => void;
+    onQueryError?: (event: QueryErrorEvent) => void;
+};
+
+let queryId = 0;
+
+const callHook = <T>(hook: ((event: T) => void) | undefined, event: T) => {
+    try {
+        hook?.(event);
+    } catch {
+        // see QueryHooks
+    }
+};
+
+/**
+ * Reports a single query to the hooks, timing it from the moment it was issued.
+ */
+export class QueryInstrumentation {
+    private readonly startTime = performance.now();
+    private event: QueryStartEvent | undefined;
+
+    constructor(
+        private readonly hooks: QueryHooks,
+        private readonly sql: string,
+        private readonly params: unknown[] | undefined,
+    ) {}
+
+    public start(command: string | undefined) {
+        this.event = { queryId: ++queryId, sql: this.sql, params: this.params, command };
+        callHook(this.hooks.onQueryStart, this.event);
+    }
+
+    public end(rowCount: number | null) {
+        callHook(this.hooks.onQueryEnd, { ...this.started(), duration: this.duration(), rowCount });
+    }
+
+    public error(error: DatabaseError) {
+        callHook(this.hooks.onQueryError, { ...this.started(), duration: this.duration(), error });
+    }
+
+    // queries failing before they could be analyzed still report a start
+    private started(): QueryStartEvent {
+        if (!this.event) this.start(undefined);
+        return this.event as QueryStartEvent;
+    }
+
+    private duration(): number {
+        return performance.now() - this.startTime;
+    }
+}
@@ -0,0 +1,92 @@
+export type Release = () => void;
+
+type Waiter = {
+    resolve: (release: Release) => void;
+    reject: (error: unknown) => void;
+};
+
+/**
+ * FIFO mutex guarding the single PGlite session.
+ * Only one holder at a time, everyone else waits in arrival order.
+ */
+export class LeaseQueue {
+    private leased = false;
+    private waiters: Waiter[] = [];
+    private idleListeners: Array<() => void> = [];
+
+    public get isLeased(): boolean {
+        return this.leased;
+    }
+
+    public get pending(): number {
+        return this.waiters.length;
+    }
+
+    /**
+     * Waits for the lease, an aborted signal gives up waiting and rejects with its reason.
+     */
+    public acquire(signal?: AbortSignal): Promise<Release> {
+        if (signal?.aborted) return Promise.reject(signal.reason);
+
+        if (!this.leased) {
+            this.leased = true;
+            return Promise.resolve(this.createRelease());
+        }
+
+        return new Promise<Release>((resolve, reject) => {
+            const onAbort = () => {
+                this.waiters = this.waiters.filter(other => other !== waiter);
+                reject(signal?.reason);
+            };
+            const waiter: Waiter = {
+                resolve: release => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(release);
+                },
+                reject: error => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+            };
+
+            this.waiters.push(waiter);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Rejects everyone still waiting for a lease, the current holder keeps it until released.
+     */
+    public rejectPending(error: unknown) {
+        const waiters = this.waiters;
+        this.waiters = [];
+        for (const waiter of waiters) waiter.reject(error);
+    }
+
+    /**
+     * Resolves once nobody holds the lease anymore.
+     */
+    public whenIdle(): Promise<void> {
+        if (!this.leased) return Promise.resolve();
+        return new Promise(resolve => this.idleListeners.push(resolve));
+    }
+
+    private createRelease(): Release {
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+
+            const next = this.waiters.shift();
+            if (next) {
+                next.resolve(this.createRelease());
+                return;
+            }
+
+            this.leased = false;
+            const idleListeners = this.idleListeners;
+            this.idleListeners = [];
+            for (const listener of idleListeners) listener();
+        };
+    }
+}
@@ -0,0 +1,400 @@
+import type { PGliteInterface, QueryOptions, Transaction } from '@electric-sql/pglite';
+import type { Change, LiveNamespace } from '@electric-sql/pglite/live';
+import type { Release } from './lease-queue.js';
+
+type Row = Record<string, unknown>;
+
+type Session = () => Promise<[PGliteInterface, Release]>;
+
+/**
+ * The part of TypeORM's `QueryRunner` hydrating live results goes through.
+ */
+type LiveQueryRunner = {
+    query: (query: string, parameters?: unknown[], useStructuredResult?: boolean) => Promise<unknown>;
+    release: () => Promise<void>;
+};
+
+/**
+ * The part of TypeORM's `SelectQueryBuilder` live queries use.
+ */
+export type LiveQueryBuilder<T> = {
+    connection: {
+        createQueryRunner: () => LiveQueryRunner;
+        driver: { master?: unknown };
+    };
+    expressionMap: {
+        mainAlias?: { name: string; metadata: { primaryColumns: { databaseName: string }[] } };
+        joinAttributes: { isMany: boolean }[];
+        skip?: number;
+        take?: number;
+    };
+    getQueryAndParameters: () => [string, unknown[]];
+    clone: () => LiveQueryBuilder<T>;
+    setQueryRunner: (queryRunner: LiveQueryRunner) => LiveQueryBuilder<T>;
+    cache: (enabled: boolean) => LiveQueryBuilder<T>;
+    getMany: () => Promise<T[]>;
+};
+
+/**
+ * The part of TypeORM's `Repository` {@link liveFind} uses.
+ */
+export type LiveRepository<T> = {
+    metadata: { name: string };
+    createQueryBuilder: (alias?: string) => { setFindOptions: (options: object) => LiveQueryBuilder<T> };
+};
+
+export type LiveQueryOptions = {
+    /**
+     * Diffs the results in postgres (PGlite's `live.changes()`) by primary key instead of reading them again as a whole,
+     * and reports the entities each update inserted, updated and deleted. Needs one row per entity, so no joined to-many relations.
+     */
+    incremental?: boolean;
+    /**
+     * Called with the errors of later updates, e.g. when their results couldn't be turned into entities. Otherwise they're thrown.
+     */
+    onError?: (error: unknown) => void;
+};
+
+export type LiveQueryChanges<T> = {
+    inserted: T[];
+    updated: T[];
+    deleted: T[];
+};
+
+export type LiveQueryUpdate<T> = {
+    entities: T[];
+    /**
+     * What changed since the previous update, only for incremental live queries. The first update inserts every entity.
+     */
+    changes?: LiveQueryChanges<T>;
+};
+
+export type LiveQuerySubscription = {
+    /**
+     * Reads the results again, like a change of the tables they come from does.
+     */
+    refresh: () => Promise<void>;
+    /**
+     * Stops the updates and drops what PGlite set up for the query.
+     */
+    unsubscribe: () => Promise<void>;
+};
+
+type LivePool = {
+    live: () => Promise<LiveNamespace>;
+};
+
+// the incremental query is wrapped to get a key named in lower case, `live.changes()` doesn't quote it everywhere
+const keyColumn = 'live_query_key';
+
+const changeColumns = new Set(['__op__', '__after__', '__changed_columns__']);
+
+/**
+ * The connection the live extension runs on. Every query and transaction of it waits for the driver's session like a leased client does,
+ * and parses and serializes values like the driver's own queries.
+ */
+const leasedConnection = (connection: PGliteInterface, session: Session, queryOptions: () => QueryOptions): PGliteInterface => {
+    let held = false;
+    const exclusive = async <T>(operation: () => Promise<T>): Promise<T> => {
+        // the extension's own calls while it holds the session, like formatting a query inside of its transaction
+        if (held) return operation();
+
+        const [, release] = await session();
+        held = true;
+        try {
+            return await operation();
+        } finally {
+            held = false;
+            release();
+        }
+    };
+    const withOptions = (options?: QueryOptions) => ({ ...queryOptions(), ...options });
+
+    const overrides: Partial<PGliteInterface> = {
+        query: (query, params, options) => exclusive(() => connection.query(query, params, withOptions(options))),
+        exec: (query, options) => exclusive(() => connection.exec(query, withOptions(options))),
+        execProtocol: (message, options) => exclusive(() => connection.execProtocol(message, options)),
+        transaction: callback =>
+            exclusive(() =>
+                connection.transaction(tx => {
+                    const query: Transaction['query'] = (sql, params, options) => tx.query(sql, params, withOptions(options));
+                    return callback(Object.create(tx, { query: { value: query } }));
+                }),
+            ),
+    };
+
+    return new Proxy(connection, {
+        get: (target, property) => {
+            if (property in overrides) return overrides[property as keyof PGliteInterface];
+            const value = Reflect.get(target, property);
+            // PGlite's methods use private fields, which the proxy doesn't have
+            return typeof value === 'function' ? value.bind(target) : value;
+        },
+    });
+};
+
+/**
+ * Sets up PGlite's live extension on a connection the driver already uses, the instance doesn't need to be created with it.
+ */
+export const createLiveNamespace = async (connection: PGliteInterface, session: Session, queryOptions: () => QueryOptions): Promise<LiveNamespace> => {
+    const { live } = await import('@electric-sql/pglite/live');
+    const { namespaceObj } = await live.setup(leasedConnection(connection, session, queryOptions), {});
+    return namespaceObj;
+};
+
+const isLivePool = (pool: unknown): pool is LivePool => typeof (pool as LivePool | undefined)?.live === 'function';
+
+/**
+ * Turns raw rows into entities like `getMany()` does, with the query builder reading its rows from the live query.
+ * Anything else it runs (relation ids and counts, the queries of a `relationLoadStrategy` of `'query'`, ...) goes to the database.
+ */
+const hydrate = async <T>(queryBuilder: LiveQueryBuilder<T>, sql: string, rows: Row[]): Promise<T[]> => {
+    const queryRunner = queryBuilder.connection.createQueryRunner();
+    const replay = new Proxy(queryRunner, {
+        get: (target, property, receiver) => {
+            if (property !== 'query') return Reflect.get(target, property, receiver);
+
+            const query: LiveQueryRunner['query'] = async (query, parameters, useStructuredResult) => {
+                if (query !== sql) return target.query(query, parameters, useStructuredResult);
+                return useStructuredResult ? { records: rows, raw: rows } : rows;
+            };
+            return query;
+        },
+    });
+
+    try {
+        return await queryBuilder.clone().setQueryRunner(replay).cache(false).getMany();
+    } finally {
+        await queryRunner.release();
+    }
+};
+
+/**
+ * The rows of an incremental live query, put together from the changes `live.changes()` reports.
+ * Every row points to the key of the row before it (`__after__`), which is how their order comes across.
+ */
+class IncrementalRows {
+    private readonly rows = new Map<unknown, Row>();
+    private readonly following = new Map<unknown, unknown>();
+
+    /**
+     * Applies the changes, returning the keys they inserted, updated and deleted.
+     */
+    public apply(changes: Change<Row>[]) {
+        const inserted = new Set<unknown>();
+        const updated = new Set<unknown>();
+        const deleted = new Set<unknown>();
+
+        for (const change of changes) {
+            if (change.__op__ === 'RESET') {
+                for (const key of this.rows.keys()) deleted.add(key);
+                this.rows.clear();
+                this.following.clear();
+                continue;
+            }
+
+            const { __op__, __changed_columns__, ...row } = change;
+            const key = row[keyColumn];
+            if (__op__ === 'INSERT') {
+                this.rows.set(key, row);
+                this.following.set(row.__after__, key);
+                if (deleted.delete(key)) updated.add(key);
+                else inserted.add(key);
+            } else if (__op__ === 'DELETE') {
+                const previous = this.rows.get(key);
+                this.rows.delete(key);
+                if (previous) this.unlink(previous.__after__, key);
+                if (!inserted.delete(key)) deleted.add(key);
+                updated.delete(key);
+            } else {
+                const next: Row = { ...this.rows.get(key) };
+                for (const column of __changed_columns__) next[column] = row[column];
+                // only the columns that changed are listed, a moved row has `__after__` among them
+                if (__changed_columns__.includes('__after__')) {
+                    this.unlink(this.rows.get(key)?.__after__, key);
+                    this.following.set(row.__after__, key);
+                }
+                this.rows.set(key, next);
+                if (!inserted.has(key)) updated.add(key);
+            }
+        }
+
+        return { inserted: [...inserted], updated: [...updated], deleted: [...deleted] };
+    }
+
+    // inserted rows come first, one may already have taken the place after the row a deleted or moved row followed
+    private unlink(after: unknown, key: unknown) {
+        if (this.following.get(after) === key) this.following.delete(after);
+    }
+
+    /**
+     * The rows in the order of the query, following the keys from the first row on.
+     */
+    public ordered(): Row[] {
+        const rows: Row[] = [];
+        let after: unknown = null;
+        for (let index = 0; index < this.rows.size; index++) {
+            const key = this.following.get(after);
+            const row = this.rows.get(key);
+            if (!row) break;
+
+            rows.push(Object.fromEntries(Object.entries(row).filter(([column]) => !changeColumns.has(column))));
+            after = key;
+        }
+        return rows;
+    }
+}
+
+/**
+ * Hands the updates to the callback one after another, the ones of a query that was unsubscribed are dropped.
+ */
+class LiveQueryUpdates<T> {
+    private pending = Promise.resolve();
+    private initialError: unknown;
+    private initialized = false;
+    public active = true;
+
+    constructor(
+        private readonly callback: (update: LiveQueryUpdate<T>) => void,
+        private readonly options: LiveQueryOptions,
+    ) {}
+
+    public push(update: () => Promise<LiveQueryUpdate<T>>) {
+        this.pending = this.pending.then(async () => {
+            if (!this.active) return;
+
+            try {
+                const next = await update();
+                if (this.active) this.callback(next);
+            } catch (error) {
+                this.fail(error);
+            }
+        });
+    }
+
+    /**
+     * Waits for the first update, which is part of subscribing.
+     */
+    public async initial() {
+        await this.pending;
+        this.initialized = true;
+        if (this.initialError !== undefined) throw this.initialError;
+    }
+
+    private fail(error: unknown) {
+        if (!this.initialized) {
+            this.initialError ??= error;
+        } else if (this.options.onError) {
+            this.options.onError(error);
+        } else {
+            // surfaces like an error event nobody listens to
+            queueMicrotask(() => {
+                throw error;
+            });
+        }
+    }
+}
+
+const getLivePool = (queryBuilder: LiveQueryBuilder<unknown>) => {
+    const pool = queryBuilder.connection.driver.master;
+    if (!isLivePool(pool)) {
+        throw new Error('live queries need an initialized DataSource using PGliteDriver, did you call DataSource.initialize()?');
+    }
+    return pool;
+};
+
+// with joins, `take` and `skip` make `getMany()` select the ids of the page first and the entities with another query,
+// neither of which is the SQL the live query watches, so the rows it gets could never be replayed
+const assertReplayable = ({ expressionMap: { skip, take, joinAttributes } }: LiveQueryBuilder<unknown>) => {
+    if ((skip || take) && joinAttributes.length > 0) {
+        throw new Error("live queries can't page joined entities with take or skip, which TypeORM loads with separate queries");
+    }
+};
+
+const getKeyExpression = (queryBuilder: LiveQueryBuilder<unknown>) => {
+    const { mainAlias, joinAttributes } = queryBuilder.expressionMap;
+    const primaryColumns = mainAlias?.metadata.primaryColumns ?? [];
+    if (!mainAlias || primaryColumns.length !== 1) {
+        throw new Error('incremental live queries need an entity with a single primary column');
+    }
+    if (joinAttributes.some(join => join.isMany)) {
+        throw new Error('incremental live queries need one row per entity, which joined to-many relations break');
+    }
+
+    // the alias TypeORM selects the primary column as
+    const [primaryColumn] = primaryColumns;
+    return `"${mainAlias.name}_${primaryColumn?.databaseName}"`;
+};
+
+/**
+ * Subscribes to the entities a query builder selects through PGlite's live queries, `callback` gets them again whenever the tables they come from change.
+ * The first update arrives before the subscription is returned.
+ * Live queries see committed changes only, so they can't run inside a test transaction.
+ */
+export const liveQuery = async <T>(
+    queryBuilder: LiveQueryBuilder<T>,
+    callback: (update: LiveQueryUpdate<T>) => void,
+    options: LiveQueryOptions = {},
+): Promise<LiveQuerySubscription> => {
+    assertReplayable(queryBuilder);
+    const live = await getLivePool(queryBuilder).live();
+    const [sql, parameters] = queryBuilder.getQueryAndParameters();
+    const updates = new LiveQueryUpdates(callback, options);
+
+    let subscription: { refresh: () => Promise<void>; unsubscribe: () => Promise<void> };
+    if (options.incremental) {
+        const key = getKeyExpression(queryBuilder);
+        const rows = new IncrementalRows();
+        let entities = new Map<unknown, T>();
+
+        const onChanges = (changes: Change<Row>[]) => {
+            // applied right away, the next changes build on them
+            const changed = rows.apply(changes);
+            const ordered = rows.ordered();
+            updates.push(async () => {
+                const previous = entities;
+                const hydrated = await hydrate(queryBuilder, sql, ordered);
+                // one row per entity, in the same order
+                entities = new Map(ordered.map((row, index) => [row[keyColumn], hydrated[index] as T]));
+
+                const pick = (keys: unknown[], from: Map<unknown, T>) => keys.flatMap(key => (from.has(key) ? [from.get(key) as T] : []));
+                return {
+                    entities: hydrated,
+                    changes: { inserted: pick(changed.inserted, entities), updated: pick(changed.updated, entities), deleted: pick(changed.deleted, previous) },
+                };
+            });
+        };
+
+        const wrapped = `SELECT ${key} AS ${keyColumn}, * FROM (${sql}) AS live_query`;
+        subscription = await live.changes<Row>(wrapped, parameters, keyColumn, onChanges);
+    } else {
+        subscription = await live.query<Row>(sql, parameters, ({ rows }) => {
+            updates.push(async () => ({ entities: await hydrate(queryBuilder, sql, rows) }));
+        });
+    }
+
+    try {
+        await updates.initial();
+    } catch (error) {
+        await subscription.unsubscribe();
+        throw error;
+    }
+
+    return {
+        refresh: () => subscription.refresh(),
+        unsubscribe: async () => {
+            updates.active = false;
+            await subscription.unsubscribe();
+        },
+    };
+};
+
+/**
+ * Like {@link liveQuery}, for the entities `repository.find(options)` loads.
+ */
+export const liveFind = <T>(
+    repository: LiveRepository<T>,
+    findOptions: object,
+    callback: (update: LiveQueryUpdate<T>) => void,
+    options?: LiveQueryOptions,
+): Promise<LiveQuerySubscription> => liveQuery(repository.createQueryBuilder(repository.metadata.name).setFindOptions(findOptions), callback, options);
@@ -0,0 +1,35 @@
+/**
+ * Minimal least recently used cache on top of `Map`'s insertion order.
+ */
+export class LruCache<K, V> {
+    private readonly entries = new Map<K, V>();
+
+    constructor(private readonly maxSize: number) {}
+
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    public get(key: K): V | undefined {
+        const value = this.entries.get(key);
+        if (value === undefined) return undefined;
+
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    public set(key: K, value: V) {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+
+        if (this.entries.size > this.maxSize) {
+            const oldest = this.entries.keys().next();
+            if (!oldest.done) this.entries.delete(oldest.value);
+        }
+    }
+
+    public clear() {
+        this.entries.clear();
+    }
+}
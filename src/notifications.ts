@@ -0,0 +1,121 @@
+import type { PGliteInterface } from '@electric-sql/pglite';
+import type { AnalyzedStatement } from './statements.js';
+
+/**
+ * Payload of the `notification` event, same as node-postgres' `Notification`.
+ */
+export type Notification = {
+    channel: string;
+    payload: string;
+    processId: number;
+};
+
+export type NotificationSubscriber = {
+    emit: (event: 'notification', notification: Notification) => boolean;
+};
+
+const quoteIdentifier = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+export const listenStatement = (channels: string[]) => channels.map(channel => `LISTEN ${quoteIdentifier(channel)}`).join('; ');
+
+export const unlistenStatement = (channels: string[]) => channels.map(channel => `UNLISTEN ${quoteIdentifier(channel)}`).join('; ');
+
+/**
+ * Routes the notifications of the single PGlite session to the clients that ran `LISTEN` on their channel.
+ * Every lease hands out a new client, so subscriptions are tracked per client while the session listens once per channel,
+ * as long as any client still needs it.
+ */
+export class NotificationRouter {
+    private readonly channels = new Map<string, Set<NotificationSubscriber>>();
+    private processId: number | undefined;
+    private stopListening: (() => void) | undefined;
+
+    /**
+     * Starts routing the notifications of a (new) connection, subscriptions made on a previous connection are dropped.
+     */
+    public attach(connection: PGliteInterface) {
+        this.detach();
+        this.stopListening = connection.onNotification((channel, payload) => this.dispatch(channel, payload));
+    }
+
+    public detach() {
+        this.stopListening?.();
+        this.stopListening = undefined;
+        this.channels.clear();
+        this.processId = undefined;
+    }
+
+    /**
+     * Updates the subscriptions of a client (none for pool level queries) after its query ran,
+     * and re-listens on the channels its `UNLISTEN` took away from other clients.
+     */
+    public async track(connection: PGliteInterface, subscriber: NotificationSubscriber | undefined, statements: AnalyzedStatement[]) {
+        const relisten = new Set<string>();
+
+        for (const { stmt } of statements) {
+            if (!stmt) continue;
+
+            if ('ListenStmt' in stmt) {
+                const channel = stmt.ListenStmt.conditionname;
+                relisten.delete(channel);
+                if (!subscriber) continue;
+
+                this.subscribers(channel).add(subscriber);
+                this.processId ??= (await connection.query<{ pid: number }>('SELECT pg_backend_pid() AS pid')).rows[0]?.pid ?? 0;
+            } else if ('UnlistenStmt' in stmt) {
+                const { conditionname } = stmt.UnlistenStmt;
+                for (const channel of conditionname === undefined ? [...this.channels.keys()] : [conditionname]) {
+                    if (this.unsubscribe(subscriber, channel)) relisten.add(channel);
+                }
+            }
+        }
+
+        if (relisten.size) await connection.exec(listenStatement([...relisten]));
+    }
+
+    /**
+     * Drops every subscription of a client, returning the channels nobody listens on anymore.
+     */
+    public unsubscribeAll(subscriber: NotificationSubscriber): string[] {
+        const unused: string[] = [];
+        for (const channel of [...this.channels.keys()]) {
+            if (!this.unsubscribe(subscriber, channel)) unused.push(channel);
+        }
+        return unused;
+    }
+
+    public isSubscribed(subscriber: NotificationSubscriber): boolean {
+        for (const subscribers of this.channels.values()) {
+            if (subscribers.has(subscriber)) return true;
+        }
+        return false;
+    }
+
+    private subscribers(channel: string): Set<NotificationSubscriber> {
+        let subscribers = this.channels.get(channel);
+        if (!subscribers) {
+            subscribers = new Set();
+            this.channels.set(channel, subscribers);
+        }
+        return subscribers;
+    }
+
+    // returns whether other clients still listen on the channel
+    private unsubscribe(subscriber: NotificationSubscriber | undefined, channel: string): boolean {
+        const subscribers = this.channels.get(channel);
+        if (!subscriber || !subscribers?.delete(subscriber)) return !!subscribers?.size;
+        if (subscribers.size) return true;
+
+        this.channels.delete(channel);
+        return false;
+    }
+
+    private dispatch(channel: string, payload: string) {
+        const subscribers = this.channels.get(channel);
+        if (!subscribers) return;
+
+        const notification: Notification = { channel, payload, processId: this.processId ?? 0 };
+        // emitted outside of pglite's message handling, so a throwing listener surfaces like it would with node-postgres
+        for (const subscriber of subscribers) queueMicrotask(() => subscriber.emit('notification', notification));
+    }
+}
@@ -0,0 +1,86 @@
+import type { QueryHooks } from './instrumentation.js';
+import { prepareValue } from './pg-types.js';
+
+type AttributeValue = string | number | boolean;
+
+/**
+ * The part of an OpenTelemetry `Span` the hooks use.
+ */
+export type TelemetrySpan = {
+    setAttribute: (key: string, value: AttributeValue) => unknown;
+    setStatus: (status: { code: number; message?: string }) => unknown;
+    recordException: (exception: Error) => unknown;
+    end: () => unknown;
+};
+
+/**
+ * The part of an OpenTelemetry `Tracer` the hooks use, e.g. `trace.getTracer('pglite-typeorm')` from `@opentelemetry/api`.
+ */
+export type TelemetryTracer = {
+    startSpan: (name: string, options?: { kind?: number; attributes?: Record<string, AttributeValue> }) => TelemetrySpan;
+};
+
+export type OpenTelemetryHooksOptions = {
+    /**
+     * Records the parameters of queries as `db.query.parameter.<index>` attributes.
+     * Off by default, since parameters may contain sensitive data.
+     */
+    captureParameters?: boolean;
+};
+
+// SpanKind.CLIENT and SpanStatusCode.ERROR of @opentelemetry/api, which isn't a dependency
+const spanKindClient = 2;
+const spanStatusError = 2;
+
+const rowReturningCommands = new Set(['SELECT', 'FETCH']);
+
+const toAttributeValue = (value: unknown): string => {
+    const prepared = prepareValue(value);
+    if (prepared === null) return 'NULL';
+    if (typeof prepared === 'string') return prepared;
+    return `\\x${Array.from(prepared, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * Query hooks emitting a client span per query through the given tracer, following the OpenTelemetry database conventions
+ * (`db.system.name`, `db.query.text`, `db.operation.name`, `db.response.status_code`, ...).
+ *
+ * @example
+ * PGliteDriver(pgliteOptions, { ...openTelemetryHooks(trace.getTracer('pglite-typeorm')) });
+ */
+export const openTelemetryHooks = (tracer: TelemetryTracer, options: OpenTelemetryHooksOptions = {}): Required<QueryHooks> => {
+    const spans = new Map<number, TelemetrySpan>();
+
+    const takeSpan = (queryId: number) => {
+        const span = spans.get(queryId);
+        spans.delete(queryId);
+        return span;
+    };
+
+    return {
+        onQueryStart: ({ queryId, sql, params, command }) => {
+            const attributes: Record<string, AttributeValue> = { 'db.system.name': 'postgresql', 'db.query.text': sql };
+            if (command) attributes['db.operation.name'] = command;
+            if (options.captureParameters) {
+                for (const [index, param] of (params ?? []).entries()) attributes[`db.query.parameter.${index}`] = toAttributeValue(param);
+            }
+
+            spans.set(queryId, tracer.startSpan(command ?? 'postgresql', { kind: spanKindClient, attributes }));
+        },
+        onQueryEnd: ({ queryId, command, rowCount }) => {
+            const span = takeSpan(queryId);
+            if (command && rowReturningCommands.has(command) && rowCount !== null) span?.setAttribute('db.response.returned_rows', rowCount);
+            span?.end();
+        },
+        onQueryError: ({ queryId, error }) => {
+            const span = takeSpan(queryId);
+            if (!span) return;
+
+            if (error.code) span.setAttribute('db.response.status_code', error.code);
+            span.setAttribute('error.type', error.code ?? error.name);
+            span.recordException(error);
+            span.setStatus({ code: spanStatusError, message: error.message });
+            span.end();
+        },
+    };
+};
@@ -0,0 +1,401 @@
+import { type PGliteInterface, type ParserOptions, type Results, type SerializerOptions, types } from '@electric-sql/pglite';
+
+// ports of the text parsers and value preparation node-postgres uses (pg-types, postgres-array, postgres-date, postgres-interval, postgres-bytea),
+// not depending on them directly keeps Buffer and other node globals out of non node builds
+
+type Transform = (entry: string) => unknown;
+
+const identity = (value: string) => value;
+
+/**
+ * Parses an array literal (`{1,2,NULL}`, `{{"a","b"},{"c","d"}}`, `[0:1]={1,2}`), transforming each non null entry.
+ */
+export const parseArray = (source: string, transform: Transform = identity): unknown[] => {
+    let position = source[0] === '[' ? source.indexOf('=') + 1 : 0;
+
+    const parseLevel = (): unknown[] => {
+        const entries: unknown[] = [];
+        let recorded = '';
+        let hasRecorded = false;
+        let quoted = false;
+        let wasQuoted = false;
+
+        const newEntry = () => {
+            if (!hasRecorded) return;
+            entries.push(!wasQuoted && recorded === 'NULL' ? null : transform(recorded));
+            recorded = '';
+            hasRecorded = false;
+            wasQuoted = false;
+        };
+
+        while (position < source.length) {
+            let character = source[position++];
+            const escaped = character === '\\';
+            if (escaped) character = source[position++];
+
+            if (escaped || (quoted && character !== '"')) {
+                recorded += character;
+                hasRecorded = true;
+            } else if (quoted) {
+                quoted = false;
+            } else if (character === '"') {
+                quoted = true;
+                wasQuoted = true;
+                hasRecorded = true;
+            } else if (character === '{') {
+                entries.push(parseLevel());
+            } else if (character === '}') {
+                newEntry();
+                return entries;
+            } else if (character === ',') {
+                newEntry();
+            } else {
+                recorded += character;
+                hasRecorded = true;
+            }
+        }
+
+        throw new Error('array dimension not balanced');
+    };
+
+    // skip the outer brace, the top level is parsed like any nested level
+    position = source.indexOf('{', position) + 1;
+    return parseLevel();
+};
+
+const DATE_TIME = /(\d{1,})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,})?.*?( BC)?$/;
+const DATE = /^(\d{1,})-(\d{2})-(\d{2})( BC)?$/;
+const TIME_ZONE = /([Z+-])(\d{2})?:?(\d{2})?:?(\d{2})?/;
+const INFINITY = /^-?infinity$/;
+
+// negative years are 1 off their BC representation
+const bcYearToNegativeYear = (year: number) => -(year - 1);
+
+const timeZoneOffset = (isoDate: string): number | undefined => {
+    if (isoDate.endsWith('+00')) return 0;
+
+    const zone = TIME_ZONE.exec(isoDate.split(' ')[1] ?? '');
+    if (!zone) return undefined;
+    if (zone[1] === 'Z') return 0;
+
+    const sign = zone[1] === '-' ? -1 : 1;
+    const offset = Number.parseInt(zone[2] ?? '0', 10) * 3600 + Number.parseInt(zone[3] ?? '0', 10) * 60 + Number.parseInt(zone[4] ?? '0', 10);
+    return offset * sign * 1000;
+};
+
+/**
+ * Parses `date`, `timestamp` and `timestamptz` values, values without a time zone are local time.
+ * `infinity` and `-infinity` become `Infinity` and `-Infinity`.
+ */
+export const parseDate = (isoDate: string): Date | number | null => {
+    if (INFINITY.test(isoDate)) return Number(isoDate.replace('i', 'I'));
+
+    const matches = DATE_TIME.exec(isoDate);
+    if (!matches) {
+        const dateMatches = DATE.exec(isoDate);
+        if (!dateMatches) return null;
+
+        const year = dateMatches[4] ? bcYearToNegativeYear(Number.parseInt(dateMatches[1] as string, 10)) : Number.parseInt(dateMatches[1] as string, 10);
+        const date = new Date(year, Number.parseInt(dateMatches[2] as string, 10) - 1, Number.parseInt(dateMatches[3] as string, 10));
+        // years 0 to 99 are interpreted as 1900 to 1999 by the Date constructor
+        if (year >= 0 && year < 100) date.setFullYear(year);
+        return date;
+    }
+
+    const year = matches[8] ? bcYearToNegativeYear(Number.parseInt(matches[1] as string, 10)) : Number.parseInt(matches[1] as string, 10);
+    const month = Number.parseInt(matches[2] as string, 10) - 1;
+    const day = Number.parseInt(matches[3] as string, 10);
+    const hour = Number.parseInt(matches[4] as string, 10);
+    const minute = Number.parseInt(matches[5] as string, 10);
+    const second = Number.parseInt(matches[6] as string, 10);
+    const ms = matches[7] ? 1000 * Number.parseFloat(matches[7]) : 0;
+
+    const offset = timeZoneOffset(isoDate);
+    if (offset === undefined) {
+        const date = new Date(year, month, day, hour, minute, second, ms);
+        if (year >= 0 && year < 100) date.setFullYear(year);
+        return date;
+    }
+
+    const date = new Date(Date.UTC(year, month, day, hour, minute, second, ms));
+    if (year >= 0 && year < 100) date.setUTCFullYear(year);
+    if (offset !== 0) date.setTime(date.getTime() - offset);
+    return date;
+};
+
+const INTERVAL = /(([+-]?\d+)\s+years?)?\s*(([+-]?\d+)\s+mons?)?\s*(([+-]?\d+)\s+days?)?\s*(([+-])?([\d]*):(\d\d):(\d\d)\.?(\d{1,6})?)?/;
+
+const intervalPositions = { years: 2, months: 4, days: 6, hours: 9, minutes: 10, seconds: 11, milliseconds: 12 } as const;
+
+type IntervalField = keyof typeof intervalPositions;
+
+const intervalProperties = ['seconds', 'minutes', 'hours', 'days', 'months', 'years'] as const;
+
+const isoDesignators = { years: 'Y', months: 'M', days: 'D', hours: 'H', minutes: 'M', seconds: 'S' } as const;
+
+/**
+ * An `interval` value, only the non zero fields are set.
+ */
+export class PostgresInterval {
+    public declare years?: number;
+    public declare months?: number;
+    public declare days?: number;
+    public declare hours?: number;
+    public declare minutes?: number;
+    public declare seconds?: number;
+    public declare milliseconds?: number;
+
+    constructor(raw: string) {
+        const matches = INTERVAL.exec(raw);
+        if (!raw || !matches) return;
+
+        const isNegative = matches[8] === '-';
+        for (const field of Object.keys(intervalPositions) as IntervalField[]) {
+            const match = matches[intervalPositions[field]];
+            if (!match) continue;
+
+            // the fraction holds up to 6 digits of microseconds with trailing zeroes omitted
+            let value = field === 'milliseconds' ? Number.parseInt(match + '000000'.slice(match.length), 10) / 1000 : Number.parseInt(match, 10);
+            if (!value) continue;
+            if (isNegative && field !== 'years' && field !== 'months' && field !== 'days') value *= -1;
+            this[field] = value;
+        }
+    }
+
+    public toPostgres(): string {
+        const properties: string[] = intervalProperties.filter(property => Object.hasOwn(this, property));
+        if (this.milliseconds && !properties.includes('seconds')) properties.push('seconds');
+        if (!properties.length) return '0';
+
+        return properties.map(property => `${this.formatProperty(property as (typeof intervalProperties)[number], /\.?0+$/)} ${property}`).join(' ');
+    }
+
+    public toISOString(): string {
+        const datePart = (['years', 'months', 'days'] as const).map(property => `${this.formatProperty(property, /0+$/)}${isoDesignators[property]}`);
+        const timePart = (['hours', 'minutes', 'seconds'] as const).map(property => `${this.formatProperty(property, /0+$/)}${isoDesignators[property]}`);
+        return `P${datePart.join('')}T${timePart.join('')}`;
+    }
+
+    public toISO(): string {
+        return this.toISOString();
+    }
+
+    private formatProperty(property: (typeof intervalProperties)[number], trailingZeroes: RegExp): number | string {
+        const value = this[property] ?? 0;
+        if (property === 'seconds' && this.milliseconds) return (value + this.milliseconds / 1000).toFixed(6).replace(trailingZeroes, '');
+        return value;
+    }
+}
+
+type BufferConstructor = { from: (data: Uint8Array | string, encoding?: string) => Uint8Array };
+
+// node-postgres returns Buffers, which only exist in node
+export const toBuffer = (bytes: Uint8Array): Uint8Array => {
+    const buffer = (globalThis as { Buffer?: BufferConstructor }).Buffer;
+    return buffer ? buffer.from(bytes) : bytes;
+};
+
+export const parseBytea = (input: string): Uint8Array => {
+    if (input.startsWith('\\x')) {
+        const hex = input.slice(2);
+        return toBuffer(Uint8Array.from({ length: hex.length / 2 }, (_, index) => Number.parseInt(hex.substring(index * 2, index * 2 + 2), 16)));
+    }
+
+    // legacy escape format
+    const bytes: number[] = [];
+    let index = 0;
+    while (index < input.length) {
+        if (input[index] !== '\\') {
+            bytes.push(input.charCodeAt(index));
+            index++;
+        } else if (/[0-7]{3}/.test(input.substring(index + 1, index + 4))) {
+            bytes.push(Number.parseInt(input.substring(index + 1, index + 4), 8));
+            index += 4;
+        } else {
+            let backslashes = 1;
+            while (index + backslashes < input.length && input[index + backslashes] === '\\') backslashes++;
+            for (let k = 0; k < Math.floor(backslashes / 2); k++) bytes.push(0x5c);
+            index += Math.floor(backslashes / 2) * 2;
+        }
+    }
+    return toBuffer(Uint8Array.from(bytes));
+};
+
+const parseBool = (value: string) => ['TRUE', 't', 'true', 'y', 'yes', 'on', '1'].includes(value);
+
+const parseInteger = (value: string) => Number.parseInt(value, 10);
+
+const parsePoint = (value: string): { x: number; y: number } | null => {
+    if (value[0] !== '(') return null;
+    const [x = '', y = ''] = value.substring(1, value.length - 1).split(',');
+    return { x: Number.parseFloat(x), y: Number.parseFloat(y) };
+};
+
+const parseCircle = (value: string): { x: number; y: number; radius: number } | null => {
+    const matches = /^<\(([^,]*),([^)]*)\),(.*)>$/.exec(value);
+    if (!matches) return null;
+    return { x: Number.parseFloat(matches[1] as string), y: Number.parseFloat(matches[2] as string), radius: Number.parseFloat(matches[3] as string) };
+};
+
+const arrayOf =
+    (transform: Transform = identity) =>
+    (value: string) =>
+        parseArray(value, transform);
+
+/**
+ * The text parsers node-postgres registers by default, everything else is returned as the raw string.
+ * Notably `int8` and `numeric` stay strings, while `numeric[]` becomes an array of floats.
+ */
+export const pgTypeParsers: ParserOptions = {
+    [types.INT8]: identity,
+    [types.INT2]: parseInteger,
+    [types.INT4]: parseInteger,
+    [types.OID]: parseInteger,
+    [types.FLOAT4]: Number.parseFloat,
+    [types.FLOAT8]: Number.parseFloat,
+    [types.NUMERIC]: identity,
+    [types.BOOL]: parseBool,
+    [types.DATE]: parseDate,
+    [types.TIMESTAMP]: parseDate,
+    [types.TIMESTAMPTZ]: parseDate,
+    [600]: parsePoint, // point
+    [types.CIRCLE]: parseCircle,
+    [types.INTERVAL]: value => new PostgresInterval(value),
+    [types.BYTEA]: parseBytea,
+    [types.JSON]: value => JSON.parse(value),
+    [types.JSONB]: value => JSON.parse(value),
+    [651]: arrayOf(), // cidr[]
+    [1000]: arrayOf(parseBool), // bool[]
+    [1001]: arrayOf(parseBytea), // bytea[]
+    [1005]: arrayOf(parseInteger), // int2[]
+    [1007]: arrayOf(parseInteger), // int4[]
+    [1028]: arrayOf(parseInteger), // oid[]
+    [1016]: arrayOf(value => value.trim()), // int8[]
+    [1017]: arrayOf(parsePoint), // point[]
+    [1021]: arrayOf(Number.parseFloat), // float4[]
+    [1022]: arrayOf(Number.parseFloat), // float8[]
+    [1231]: arrayOf(Number.parseFloat), // numeric[]
+    [1014]: arrayOf(), // bpchar[]
+    [1015]: arrayOf(), // varchar[]
+    [1008]: arrayOf(), // regproc[]
+    [1009]: arrayOf(), // text[]
+    [1040]: arrayOf(), // macaddr[]
+    [1041]: arrayOf(), // inet[]
+    [1115]: arrayOf(parseDate), // timestamp[]
+    [1182]: arrayOf(parseDate), // date[]
+    [1185]: arrayOf(parseDate), // timestamptz[]
+    [1187]: arrayOf(value => new PostgresInterval(value)), // interval[]
+    [199]: arrayOf(value => JSON.parse(value)), // json[]
+    [3807]: arrayOf(value => JSON.parse(value)), // jsonb[]
+    [3907]: arrayOf(), // numrange[]
+    [2951]: arrayOf(), // uuid[]
+    [791]: arrayOf(), // money[]
+    [1183]: arrayOf(), // time[]
+    [1270]: arrayOf(), // timetz[]
+};
+
+const getInstanceParsers = (connection: PGliteInterface): ParserOptions => (connection as { parsers?: ParserOptions }).parsers ?? {};
+
+/**
+ * PGlite registers parsers for every array type that exists when it starts, which node-postgres leaves as strings (`name[]`, enum arrays, ...).
+ * Overriding those with identity parsers keeps them raw, the same as under node-postgres.
+ */
+export const getRawArrayParsers = (connection: PGliteInterface): ParserOptions => {
+    const rawParsers: ParserOptions = {};
+    for (const typeId of Object.keys(getInstanceParsers(connection))) {
+        if (!(typeId in pgTypeParsers)) rawParsers[Number(typeId)] = identity;
+    }
+    return rawParsers;
+};
+
+/**
+ * Identity parsers for every type PGlite or the given parsers would convert, which leaves every value as the text postgres sent.
+ */
+export const getRawParsers = (connection: PGliteInterface, parsers: ParserOptions = {}): ParserOptions => {
+    const rawParsers: ParserOptions = {};
+    for (const typeId of [...Object.keys(getInstanceParsers(connection)), ...Object.keys(parsers)]) rawParsers[Number(typeId)] = identity;
+    return rawParsers;
+};
+
+/**
+ * The `types` option of a node-postgres query, e.g. `pg.types` itself.
+ */
+export type CustomTypesConfig = {
+    getTypeParser: (typeId: number, format?: 'text' | 'binary') => (value: string) => unknown;
+};
+
+/**
+ * Parses the raw text values of a result (see {@link getRawParsers}) with the parsers of a `types` override.
+ */
+export const parseWithTypes = <T extends Results<unknown>>(results: T, customTypes: CustomTypesConfig): T => {
+    const parsers = results.fields.map(field => customTypes.getTypeParser(field.dataTypeID, 'text'));
+    const parseValue = (value: unknown, index: number) =>
+        value === null || value === undefined ? value : (parsers[index] as (value: string) => unknown)(value as string);
+
+    const rows = results.rows.map(row => {
+        if (Array.isArray(row)) return row.map(parseValue);
+        const record = row as Record<string, unknown>;
+        return Object.fromEntries(results.fields.map((field, index) => [field.name, parseValue(record[field.name], index)]));
+    });
+    return { ...results, rows };
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// local time with its offset, like node-postgres sends dates
+const dateToString = (date: Date): string => {
+    let offset = -date.getTimezoneOffset();
+    let year = date.getFullYear();
+    const isBCYear = year < 1;
+    if (isBCYear) year = Math.abs(year) + 1;
+
+    let result = `${pad(year, 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+    result += offset < 0 ? '-' : '+';
+    offset = Math.abs(offset);
+    result += `${pad(Math.floor(offset / 60))}:${pad(offset % 60)}`;
+    return isBCYear ? `${result} BC` : result;
+};
+
+const escapeElement = (element: string) => `"${element.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Serializers accepting the values {@link prepareValue} produces where PGlite's defaults are stricter.
+ */
+export const pgTypeSerializers: SerializerOptions = {
+    // strings are sent as is (hex or escape format), like node-postgres does
+    [types.BYTEA]: value => (value instanceof Uint8Array ? `\\x${toHex(value)}` : String(value)),
+};
+
+const arrayString = (values: unknown[]): string => {
+    const elements = values.map(item => {
+        if (item === null || item === undefined) return 'NULL';
+        if (Array.isArray(item)) return arrayString(item);
+        if (ArrayBuffer.isView(item)) return `\\\\x${toHex(new Uint8Array(item.buffer, item.byteOffset, item.byteLength))}`;
+        return escapeElement(prepareValue(item) as string);
+    });
+    return `{${elements.join(',')}}`;
+};
+
+/**
+ * Converts a query parameter the way node-postgres does: dates to local time strings, arrays to array literals,
+ * objects to JSON (or their `toPostgres()` result), binary data stays binary and everything else is stringified.
+ */
+export const prepareValue = (value: unknown, seen: unknown[] = []): string | Uint8Array | null => {
+    if (value === null || value === undefined) return null;
+    if (typeof value !== 'object') return String(value);
+
+    if (value instanceof Uint8Array) return value;
+    if (ArrayBuffer.isView(value)) return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    if (value instanceof Date) return dateToString(value);
+    if (Array.isArray(value)) return arrayString(value);
+
+    const { toPostgres } = value as { toPostgres?: (prepare: typeof prepareValue) => unknown };
+    if (typeof toPostgres === 'function') {
+        if (seen.includes(value)) throw new Error(`circular reference detected while preparing "${value}" for query`);
+        return prepareValue(toPostgres.call(value, prepareValue), [...seen, value]);
+    }
+
+    return JSON.stringify(value);
+};
@@ -1,9 +1,36 @@
-import EventEmitter from 'node:events';
-import { PGlite, type PGliteOptions, type Results, types } from '@electric-sql/pglite';
+import { PGlite, type PGliteInterface, type PGliteOptions, type QueryOptions, type Results, types } from '@electric-sql/pglite';
+import type { LiveNamespace } from '@electric-sql/pglite/live';
+import { type CopyStreamLike, isCopyStream, isStdioCopy, submitCopyStream, toBlobCopy } from './copy.js';
+import { toDatabaseError } from './database-error.js';
+import { EventEmitter } from './event-emitter.js';
+import { checkRequestedExtensions, withShippedExtensions } from './extensions.js';
+import { type QueryHooks, QueryInstrumentation } from './instrumentation.js';
+import { LeaseQueue, type Release } from './lease-queue.js';
+import { createLiveNamespace } from './live-queries.js';
+import { NotificationRouter, type NotificationSubscriber, unlistenStatement } from './notifications.js';
+import { type CustomTypesConfig, getRawArrayParsers, getRawParsers, parseWithTypes, pgTypeParsers, pgTypeSerializers, prepareValue } from './pg-types.js';
+import { PreparedStatements } from './prepared-statements.js';
+import { QueryCancellation, type QueryTimeouts } from './query-cancellation.js';
+import { type QueryStreamLike, isQueryStream, submitQueryStream } from './query-stream.js';
+import { rejectWrites, writesToDatabase } from './read-only.js';
+import { type PoolCredentials, ReplicaCopy, type ReplicationOptions, isReplicaHost } from './replication.js';
+import { createTenantStorage, createWireServer, removeDirectory } from './runtime.js';
+import { type ExplainSlowQueriesOptions, SlowQueryLog, type SlowQueryReport, explainQuery } from './slow-queries.js';
+import { PGliteSnapshot } from './snapshot.js';
+import { type SqlImportOptions, type SqlImportResult, importSql } from './sql-import.js';
+import { type AnalyzedQuery, type AnalyzedStatement, analyzeQuery, isExplainable } from './statements.js';
+import { type TaggedResults, execWithTags, queryWithTag, tagRowCount } from './tagged-results.js';
+import { type TenantOptions, TenantPools, type TenantStorage } from './tenants.js';
+import { TestTransaction } from './test-transaction.js';
+import type { ServerAddress, WireServer, WireServerOptions } from './wire-server.js';
 
 const noop = () => {};
 
-type QueryCallback = (error: unknown, results: Results<unknown> | null) => void;
+type QueryCallback = (error: unknown, results: QueryResult | QueryResult[] | null) => void;
+
+type Execute = (query: string | QueryConfig, paramsOrCb?: any[] | QueryCallback, cb?: QueryCallback) => Promise<QueryResult | QueryResult[]>;
+
+type ReleaseCallback = (error?: unknown) => void;
 
 type FieldDef = {
     name: string;
@@ -20,115 +47,1313 @@ type QueryResultRow = {
     [column: string]: any;
 };
 
-type QueryResult<R extends QueryResultRow = any> = QueryResultBase & {
+export type QueryResult<R extends QueryResultRow = any> = QueryResultBase & {
     rows: R[];
+    /**
+     * Data written by `COPY ... TO STDOUT` (or `TO '/dev/blob'`).
+     */
+    blob?: Blob;
+};
+
+/**
+ * An already created PGlite instance (`PGlite`, `PGliteWorker`, ...) or a factory creating one.
+ */
+export type PGliteSource = PGliteInterface | (() => PGliteInterface | Promise<PGliteInterface>);
+
+export type PGliteDriverOptions = QueryHooks & {
+    /**
+     * What a query containing multiple statements resolves to.
+     *  - `'array'` (default): one result per statement, like node-postgres does for multi statement simple queries
+     *  - `'last'`: only the result of the last statement
+     */
+    multiStatementResult?: 'array' | 'last';
+    /**
+     * Whether ending the pool (`DataSource.destroy()`) closes the PGlite instance.
+     * Defaults to `true` when the driver created the instance (from options or a factory) and `false` when an instance was passed in.
+     */
+    closeOnEnd?: boolean;
+    /**
+     * How values are parsed from results and encoded as parameters.
+     *  - `'pg'` (default): like node-postgres, e.g. `int8` and `numeric` as strings, timestamps without time zone as local time, `bytea` as Buffer
+     *  - `'pglite'`: PGlite's own parsers and serializers
+     */
+    typeParsing?: 'pg' | 'pglite';
+    /**
+     * Re-runs queries slower than `threshold` milliseconds with `EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON)` in a rolled back transaction (or savepoint),
+     * and collects their plans in {@link PGliteDriverInstance.slowQueryReport}.
+     */
+    explainSlowQueries?: ExplainSlowQueriesOptions;
+    /**
+     * Serves the PGlite instance over the postgres wire protocol on a TCP port or Unix socket, so psql and other clients can connect to it.
+     * Their queries take turns with the application's, see {@link PGliteDriverInstance.serverAddress}.
+     * There is no authentication, any client that can reach the port gets full access to the database.
+     * Socket traffic goes straight to PGlite, so it can't be combined with `readOnly` or test transactions.
+     */
+    server?: WireServerOptions;
+    /**
+     * Loads the extensions PGlite ships (`@electric-sql/pglite/contrib/*`, `vector`, ...) into the PGlite instances the driver creates, so a `CREATE EXTENSION` finds them,
+     * including the ones TypeORM creates for `uuid`, `citext`, `hstore`, `cube` and `ltree` columns. On by default.
+     */
+    autoLoadExtensions?: boolean;
+    /**
+     * Routes queries to a PGlite database per tenant, opened on first use and closed again by least recent use.
+     * The tenant comes from {@link PGliteDriverInstance.runWithTenant} (or the option's `tenant`), queries without one use the driver's own database.
+     */
+    tenants?: TenantOptions;
+    /**
+     * Serves the pools TypeORM creates for `replication: { master, slaves }`, the slaves (the ones whose `host` is `replica` by default)
+     * become read-only replicas of the master's database.
+     * Writes through a replica fail with `25006 read_only_sql_transaction`, like on a hot standby.
+     */
+    replication?: ReplicationOptions;
+    /**
+     * Opens the database for reading only, e.g. a shipped data dir used for reports. Queries writing to it (INSERT, UPDATE, DELETE, DDL, ...)
+     * fail with `25006 read_only_sql_transaction` before they run, and the session's `default_transaction_read_only` is on for everything else.
+     * DataSources using it can't `synchronize` or run migrations.
+     */
+    readOnly?: boolean;
 };
 
+/**
+ * The object form of a node-postgres query.
+ */
+export type QueryConfig = {
+    text: string;
+    values?: any[];
+    /**
+     * Prepares the statement under this name on first use, later queries with the same name only bind and execute it.
+     */
+    name?: string;
+    /**
+     * Return rows as arrays of values instead of objects keyed by column name.
+     */
+    rowMode?: 'array';
+    /**
+     * Parsers for this query only, e.g. `pg.types` or `{ getTypeParser: (typeId, format) => ... }`.
+     */
+    types?: CustomTypesConfig;
+    /**
+     * Cancels the query after this many milliseconds, overrides the pool's `query_timeout`.
+     */
+    query_timeout?: number;
+    /**
+     * Cancels the query once aborted.
+     */
+    signal?: AbortSignal;
+    /**
+     * Data read by `COPY ... FROM STDIN` (or `FROM '/dev/blob'`).
+     */
+    blob?: Blob;
+};
+
+/**
+ * The node-postgres pool options the driver honors, TypeORM passes them through its `extra` option.
+ * The credentials tell the pools of replicas apart.
+ */
+type PoolOptions = PoolCredentials & {
+    statement_timeout?: number | false;
+    query_timeout?: number;
+};
+
+/**
+ * Hands out the connection a query runs on, along with a release for when the query is done with it.
+ */
+type Session = (signal: AbortSignal) => Promise<[PGliteInterface, Release]>;
+
+export interface PGliteClient {
+    query<T extends QueryStreamLike | CopyStreamLike>(stream: T): T;
+    query(query: string | QueryConfig, params?: any[], callback?: QueryCallback): Promise<QueryResult | QueryResult[]>;
+    release: ReleaseCallback;
+}
+
+type ConnectCallback = (error: unknown, client: PGliteClient | null, done: ReleaseCallback) => void;
+
 export interface PGlitePool {
-    connect: (callback: (error: unknown, client: PGlitePool | null, done: (...args: unknown[]) => void) => void) => void;
-    query: (sqlQuery: string, params?: any[], callback?: QueryCallback) => Promise<QueryResult>;
+    connect: (callback: ConnectCallback) => void;
+    query: (query: string | QueryConfig, params?: any[], callback?: QueryCallback) => Promise<QueryResult | QueryResult[]>;
     end: (cb: (error: unknown | null) => void) => void;
 }
 
-const getPool = (pgliteOptions?: PGliteOptions) =>
-    class extends EventEmitter implements PGlitePool {
-        private connection: PGlite | null = null;
+const isPGliteInterface = (source: unknown): source is PGliteInterface =>
+    typeof (source as PGliteInterface | undefined)?.query === 'function' && typeof (source as PGliteInterface | undefined)?.exec === 'function';
 
-        public async connect(callback: (error: unknown, client: this | null, done: (...args: unknown[]) => void) => void) {
-            if (this.connection) {
-                callback(null, this, noop);
-                return;
+const createConnection = async (pglite: PGliteOptions | PGliteSource | undefined, driverOptions: PGliteDriverOptions): Promise<PGliteInterface> => {
+    let connection: PGliteInterface;
+    if (typeof pglite === 'function') {
+        connection = await pglite();
+    } else if (isPGliteInterface(pglite)) {
+        connection = pglite;
+    } else {
+        connection = await PGlite.create((driverOptions.autoLoadExtensions ?? true) ? await withShippedExtensions(pglite) : pglite);
+    }
+
+    await connection.waitReady;
+    if (driverOptions.readOnly) await connection.exec('SET default_transaction_read_only = on');
+    return connection;
+};
+
+/**
+ * PGlite only tracks transactions opened with `BEGIN` (by its command tag), not with `START TRANSACTION` like TypeORM does,
+ * so otherwise this asks postgres, where a savepoint only succeeds inside of a transaction block.
+ */
+const isInTransaction = async (connection: PGliteInterface): Promise<boolean> => {
+    if ((connection as { isInTransaction?: () => boolean }).isInTransaction?.()) return true;
+
+    try {
+        await connection.exec('SAVEPOINT pglite_typeorm_probe; RELEASE SAVEPOINT pglite_typeorm_probe');
+        return true;
+    } catch (error) {
+        // 25P01 no_active_sql_transaction, anything else (like 25P02 in_failed_sql_transaction) means there is one
+        return (error as { code?: string }).code !== '25P01';
+    }
+};
+
+// parsers and serializers are passed per query so they also apply to instances the driver didn't create,
+// the ones from the PGlite options still take precedence
+const replicaSavepoint = 'pglite_typeorm_replica';
+
+/**
+ * Makes the session read-only until the lease is released. A replica can't have written anything, so what it leaves open is rolled back.
+ * Inside an open transaction (like a test transaction) the replica's part of it becomes a read-only savepoint.
+ */
+const leaseReadOnly = async (connection: PGliteInterface, release: Release): Promise<Release> => {
+    if (await isInTransaction(connection)) {
+        await connection.exec(`SAVEPOINT ${replicaSavepoint}; SET transaction_read_only = on`);
+        return () => {
+            connection.exec(`ROLLBACK TO SAVEPOINT ${replicaSavepoint}; RELEASE SAVEPOINT ${replicaSavepoint}`).then(release, release);
+        };
+    }
+
+    await connection.exec('SET default_transaction_read_only = on');
+    return () => {
+        const reset = async () => {
+            if (await isInTransaction(connection)) await connection.exec('ROLLBACK');
+            await connection.exec('SET default_transaction_read_only = off');
+        };
+        reset().then(release, release);
+    };
+};
+
+const getQueryOptions = (pglite: PGliteOptions | PGliteSource | undefined, driverOptions: PGliteDriverOptions): QueryOptions => {
+    const pgliteOptions = typeof pglite === 'function' || isPGliteInterface(pglite) ? undefined : pglite;
+    const pgCompatible = driverOptions.typeParsing !== 'pglite';
+
+    return {
+        parsers: pgCompatible ? { ...pgTypeParsers, ...pgliteOptions?.parsers } : undefined,
+        serializers: {
+            ...(pgCompatible ? pgTypeSerializers : undefined),
+            [types.BOOL]: val => {
+                if (val === 'true') return 'TRUE';
+                if (val === true) return 'TRUE';
+                if (val === 'false') return 'FALSE';
+                if (val === false) return 'FALSE';
+                if (val === 1) return 'TRUE';
+                if (val === 0) return 'FALSE';
+                return val;
+            },
+            ...pgliteOptions?.serializers,
+        },
+    };
+};
+
+/**
+ * Query options for a specific connection, which adds the array types PGlite knows about that node-postgres leaves as strings.
+ */
+const getConnectionQueryOptions = (queryOptions: QueryOptions, connection: PGliteInterface, driverOptions: PGliteDriverOptions): QueryOptions =>
+    driverOptions.typeParsing === 'pglite' ? queryOptions : { ...queryOptions, parsers: { ...getRawArrayParsers(connection), ...queryOptions.parsers } };
+
+const toQueryResult = (results: TaggedResults | undefined, statement: AnalyzedStatement | undefined): QueryResult => ({
+    rows: results?.rows ?? [],
+    fields: results?.fields ?? [],
+    rowCount: tagRowCount(results?.commandTag),
+    command: statement?.command,
+    ...(results?.blob && { blob: results.blob }),
+});
+
+/**
+ * State shared by the pool and every client it leases.
+ */
+type QueryContext = {
+    driverOptions: PGliteDriverOptions;
+    queryOptions: QueryOptions;
+    /**
+     * Parsers leaving every value as text, for queries with their own `types`.
+     */
+    rawParsers: QueryOptions['parsers'];
+    testTransaction: TestTransaction | null;
+    notifications: NotificationRouter;
+    preparedStatements: PreparedStatements;
+    timeouts: QueryTimeouts;
+    slowQueries: SlowQueryLog | undefined;
+};
+
+/**
+ * Tags the results of a query PGlite ran itself with the row counts of its COPY statements, the only ones PGlite reports along with a blob.
+ * Its `affectedRows` add up across the statements of an exec call.
+ */
+const withCopyTags = (results: Results[], statements: AnalyzedStatement[]): TaggedResults[] => {
+    let previousAffectedRows = 0;
+    return results.map((res, index) => {
+        const affectedRows = res.affectedRows ?? 0;
+        const statementAffectedRows = affectedRows - previousAffectedRows;
+        previousAffectedRows = affectedRows;
+        return { ...res, commandTag: statements[index]?.command === 'COPY' ? `COPY ${statementAffectedRows}` : undefined };
+    });
+};
+
+const prepareParams = (context: QueryContext, values: any[] | undefined) =>
+    context.driverOptions.typeParsing === 'pglite' ? values : values?.map(param => prepareValue(param));
+
+const executeStatements = async (
+    connection: PGliteInterface,
+    context: QueryContext,
+    analyzedQuery: AnalyzedQuery,
+    query: QueryConfig,
+): Promise<QueryResult | QueryResult[]> => {
+    const { types } = query;
+    const queryOptions: QueryOptions = { ...context.queryOptions };
+    if (query.rowMode === 'array') queryOptions.rowMode = 'array';
+    if (types) queryOptions.parsers = context.rawParsers;
+    if (query.blob) queryOptions.blob = query.blob;
+
+    const parseResults = <T extends Results<unknown>>(results: T): T => (types ? parseWithTypes(results, types) : results);
+
+    // PGlite's results leave out the command tags the row counts are taken from, so queries go through the wire protocol,
+    // unless PGlite has to set up the blob of a COPY
+    const usesBlob = Boolean(query.blob) || analyzedQuery.statements.some(({ command }) => command === 'COPY');
+
+    // for multiple statement queries with no params, use the simple protocol like pglite.exec, since it runs multiple sql statements but doesn't support params
+    if (!query.name && analyzedQuery.statements.length > 1) {
+        const results = usesBlob
+            ? withCopyTags(await connection.exec(query.text, queryOptions), analyzedQuery.statements)
+            : await execWithTags(connection, query.text, queryOptions);
+        const queryResults = results.map((res, index) => toQueryResult(parseResults(res), analyzedQuery.statements[index]));
+
+        return context.driverOptions.multiStatementResult === 'last' ? (queryResults.at(-1) ?? toQueryResult(undefined, undefined)) : queryResults;
+    }
+
+    const params = prepareParams(context, query.values);
+    const text = isStdioCopy(analyzedQuery.statements[0]?.stmt) ? toBlobCopy(query.text) : query.text;
+    const results = query.name
+        ? await context.preparedStatements.execute(connection, query.name, text, params, queryOptions)
+        : usesBlob
+          ? (withCopyTags([await connection.query(text, params, queryOptions)], analyzedQuery.statements)[0] as TaggedResults)
+          : await queryWithTag(connection, text, params, queryOptions);
+    return toQueryResult(parseResults(results), analyzedQuery.statements[0]);
+};
+
+// same argument handling as node-postgres, separately passed values take precedence over the ones in a config object
+const normalizeQuery = (query: string | QueryConfig, paramsOrCb?: any[] | QueryCallback, cb?: QueryCallback): [QueryConfig, QueryCallback | undefined] => {
+    const config = typeof query === 'string' ? { text: query } : { ...query };
+    if (typeof paramsOrCb === 'function') return [config, paramsOrCb];
+    if (paramsOrCb) config.values = paramsOrCb;
+    return [config, cb];
+};
+
+// a canceled statement aborts the transaction it ran in like it does in postgres, but not the outer transaction of a test
+const abortTransaction = async (connection: PGliteInterface, context: QueryContext) => {
+    if ((context.testTransaction && !context.testTransaction.inTransaction) || !(await isInTransaction(connection))) return;
+
+    try {
+        // any error aborts the transaction, plain SQL since plpgsql's RAISE may not be loadable
+        await connection.exec('SELECT 1 / 0');
+    } catch {
+        // expected
+    }
+};
+
+// statements that can't be undone by rolling back around them, or that can't run inside a transaction block
+const unguardedCommands = new Set(['BEGIN', 'START', 'COMMIT', 'ROLLBACK', 'SAVEPOINT', 'RELEASE', 'PREPARE', 'VACUUM', 'DISCARD', 'DECLARE']);
+
+const canRollBack = ({ statements }: AnalyzedQuery) =>
+    statements.every(({ command, stmt }) => {
+        if (unguardedCommands.has(command ?? '')) return false;
+        if (!stmt) return true;
+        return !('CreatedbStmt' in stmt || 'DropdbStmt' in stmt || 'AlterSystemStmt' in stmt || ('IndexStmt' in stmt && stmt.IndexStmt.concurrent));
+    });
+
+const guardSavepoint = 'pglite_typeorm_cancel';
+
+/**
+ * Starts running a statement unless it was canceled already, in which case the query was rejected and the statement must not take effect.
+ * Nothing is awaited between the check and the start, so a cancellation can't slip in.
+ */
+const beginStatement = async (connection: PGliteInterface, context: QueryContext, cancellation: QueryCancellation) => {
+    if (cancellation.check()) {
+        await abortTransaction(connection, context);
+        throw cancellation.signal.reason;
+    }
+    cancellation.begin();
+};
+
+/**
+ * Runs a statement that can still be canceled inside a savepoint (or a transaction of its own under autocommit),
+ * so once it completes past its deadline it's rolled back before the cancellation is reported, like postgres would have canceled it.
+ * Statements that can't be rolled back return their result once they completed.
+ */
+const runCancelable = async <T>(
+    connection: PGliteInterface,
+    context: QueryContext,
+    analyzedQuery: AnalyzedQuery,
+    cancellation: QueryCancellation,
+    execute: () => Promise<T>,
+) => {
+    await beginStatement(connection, context, cancellation);
+    if (!cancellation.cancelable || !canRollBack(analyzedQuery)) {
+        const result = await execute();
+        cancellation.finish();
+        return result;
+    }
+
+    const inTransaction = await isInTransaction(connection);
+    await connection.exec(inTransaction ? `SAVEPOINT ${guardSavepoint}` : 'BEGIN');
+
+    let result: T;
+    try {
+        result = await execute();
+    } catch (error) {
+        // inside a transaction the failure aborts it like it would without the savepoint, which goes away once the transaction is rolled back
+        if (!inTransaction) await connection.exec('ROLLBACK');
+        throw error;
+    }
+
+    if (!cancellation.finish()) {
+        await connection.exec(inTransaction ? `RELEASE SAVEPOINT ${guardSavepoint}` : 'COMMIT');
+        return result;
+    }
+
+    await connection.exec(inTransaction ? `ROLLBACK TO SAVEPOINT ${guardSavepoint}; RELEASE SAVEPOINT ${guardSavepoint}` : 'ROLLBACK');
+    await abortTransaction(connection, context);
+    throw cancellation.signal.reason;
+};
+
+const explainIfSlow = async (connection: PGliteInterface, context: QueryContext, analyzedQuery: AnalyzedQuery, config: QueryConfig, duration: number) => {
+    const { slowQueries } = context;
+    if (!slowQueries) return;
+
+    const { statements } = analyzedQuery;
+    const [statement] = statements;
+    const explain =
+        statements.length === 1 && statement && isExplainable(statement)
+            ? async () =>
+                  explainQuery(
+                      connection,
+                      config.text,
+                      prepareParams(context, config.values),
+                      context.queryOptions,
+                      await isInTransaction(connection),
+                      writesToDatabase(statement),
+                  )
+            : undefined;
+
+    await slowQueries.record({ sql: config.text, params: config.values, command: statements.at(-1)?.command, duration }, explain);
+};
+
+const executeQuery = async (
+    connection: PGliteInterface,
+    context: QueryContext,
+    analyzedQuery: AnalyzedQuery,
+    config: QueryConfig,
+    cancellation: QueryCancellation,
+    subscriber: NotificationSubscriber | undefined,
+): Promise<QueryResult | QueryResult[]> => {
+    if (cancellation.check()) {
+        await abortTransaction(connection, context);
+        throw cancellation.signal.reason;
+    }
+
+    if (context.driverOptions.readOnly) rejectWrites(analyzedQuery);
+
+    if (context.driverOptions.autoLoadExtensions ?? true) {
+        await checkRequestedExtensions(
+            connection,
+            analyzedQuery.statements.map(({ stmt }) => stmt),
+        );
+    }
+
+    const execute = async () => {
+        const startTime = performance.now();
+        const result = await runCancelable(connection, context, analyzedQuery, cancellation, () =>
+            executeStatements(connection, context, analyzedQuery, config),
+        );
+        await explainIfSlow(connection, context, analyzedQuery, config, performance.now() - startTime);
+        return result;
+    };
+    const { testTransaction } = context;
+
+    const statement = analyzedQuery.statements.length === 1 ? analyzedQuery.statements[0] : undefined;
+    const replacement = statement?.stmt ? testTransaction?.rewrite(statement.stmt) : undefined;
+
+    let result: QueryResult | QueryResult[];
+    if (replacement !== undefined) {
+        await beginStatement(connection, context, cancellation);
+        if (replacement) await connection.exec(replacement);
+        cancellation.finish();
+        result = toQueryResult(undefined, statement);
+    } else if (testTransaction) {
+        result = await testTransaction.autocommit(connection, execute);
+    } else {
+        result = await execute();
+    }
+
+    await context.notifications.track(connection, subscriber, analyzedQuery.statements);
+    return result;
+};
+
+const runQuery = async (
+    session: Session,
+    context: QueryContext,
+    query: string | QueryConfig,
+    paramsOrCb?: any[] | QueryCallback,
+    cb?: QueryCallback,
+    subscriber?: NotificationSubscriber,
+): Promise<QueryResult | QueryResult[]> => {
+    const [config, queryCb] = normalizeQuery(query, paramsOrCb, cb);
+    const instrumentation = new QueryInstrumentation(context.driverOptions, config.text, config.values);
+    const cancellation = new QueryCancellation(config.signal, {
+        ...context.timeouts,
+        queryTimeout: config.query_timeout ?? context.timeouts.queryTimeout,
+    });
+
+    let result: QueryResult | QueryResult[];
+    try {
+        const analyzedQuery = await analyzeQuery(config.text);
+        instrumentation.start(analyzedQuery.statements.at(-1)?.command);
+
+        result = await cancellation.run(async signal => {
+            const [connection, release] = await session(signal);
+            cancellation.startStatement();
+            try {
+                return await executeQuery(connection, context, analyzedQuery, config, cancellation, subscriber);
+            } finally {
+                release();
+            }
+        });
+    } catch (error) {
+        const databaseError = toDatabaseError(error, config.text, config.values);
+        instrumentation.error(databaseError);
+        queryCb?.(databaseError, null);
+        throw databaseError;
+    }
+
+    instrumentation.end(Array.isArray(result) ? (result.at(-1)?.rowCount ?? null) : result.rowCount);
+    queryCb?.(null, result);
+    return result;
+};
+
+/**
+ * A client leased from the pool, it owns the PGlite session until released.
+ */
+class LeasedClient extends EventEmitter implements PGliteClient {
+    private released = false;
+
+    constructor(
+        private readonly execute: Execute,
+        private readonly releaseLease: Release,
+        private readonly isInTransaction: () => Promise<boolean>,
+    ) {
+        super();
+    }
+
+    /**
+     * Streams (pg-query-stream or `PGliteQueryStream`) are returned synchronously like node-postgres does, their rows are fetched through a cursor while they're read.
+     * pg-copy-streams' `from()` and `to()` streams copy through `/dev/blob`, see {@link submitCopyStream}.
+     */
+    public query<T extends QueryStreamLike | CopyStreamLike>(stream: T): T;
+    public query(query: string | QueryConfig, cb?: QueryCallback): Promise<QueryResult | QueryResult[]>;
+    public query(query: string | QueryConfig, params?: any[], callback?: QueryCallback): Promise<QueryResult | QueryResult[]>;
+    public query(queryOrStream: string | QueryConfig | QueryStreamLike | CopyStreamLike, paramsOrCb?: any[] | QueryCallback, cb?: QueryCallback) {
+        // copy-to streams are readable too, they have to be told apart from query streams first
+        if (isCopyStream(queryOrStream)) {
+            if (this.released) {
+                throw new Error('client has already been released to the pool');
             }
 
+            return submitCopyStream(queryOrStream, async (text, blob) => (await this.execute({ text, blob })) as QueryResult);
+        }
+
+        if (isQueryStream(queryOrStream)) {
+            if (this.released) {
+                throw new Error('client has already been released to the pool');
+            }
+
+            return submitQueryStream(
+                queryOrStream,
+                async (sqlQuery, params) => {
+                    if (this.released) {
+                        throw new Error('client has already been released to the pool');
+                    }
+                    return (await this.execute(sqlQuery, params)) as QueryResult;
+                },
+                this.isInTransaction,
+            );
+        }
+
+        if (this.released) {
+            return Promise.reject(new Error('client has already been released to the pool'));
+        }
+
+        return this.execute(queryOrStream, paramsOrCb, cb);
+    }
+
+    public release = (_error?: unknown) => {
+        if (this.released) return;
+        this.released = true;
+        this.releaseLease();
+    };
+}
+
+type ConnectOptions = {
+    /**
+     * Leases the session read-only, for the clients of replicas.
+     */
+    readOnly?: boolean;
+};
+
+interface PoolInternal extends PGlitePool {
+    connect: (callback: ConnectCallback, options?: ConnectOptions) => void;
+    isIdle: () => boolean;
+    openTenants: () => string[];
+    syncReplicas: () => Promise<void>;
+    live: () => Promise<LiveNamespace>;
+    serverAddress: () => ServerAddress;
+    dumpDataDir: () => Promise<Blob>;
+    loadDataDir: (data: Blob) => Promise<void>;
+    importSql: (dump: string, options: SqlImportOptions) => Promise<SqlImportResult>;
+    copyFrom: (sql: string, data: Blob) => Promise<number>;
+    copyTo: (sql: string) => Promise<Blob>;
+    startTestTransaction: () => Promise<void>;
+    rollbackTestTransaction: () => Promise<void>;
+}
+
+/**
+ * The directory a snapshot is restored into, `undefined` for in-memory databases.
+ */
+const dataDirPath = ({ dataDir, fs }: PGliteOptions = {}): string | undefined => {
+    if (!fs && (!dataDir || dataDir.startsWith('memory://'))) return undefined;
+    if (fs || /^(idb|opfs-ahp):\/\//.test(dataDir ?? '')) {
+        throw new Error(
+            'restoring a snapshot is only supported for in-memory databases and data dirs on disk, not for idb://, opfs-ahp:// or custom file systems',
+        );
+    }
+    return dataDir?.replace(/^file:\/\//, '');
+};
+
+const getPool = (
+    pglite: PGliteOptions | PGliteSource | undefined,
+    driverOptions: PGliteDriverOptions,
+    pools: PoolInternal[],
+    slowQueries: SlowQueryLog | undefined,
+) => {
+    const queryOptions = getQueryOptions(pglite, driverOptions);
+    const closeOnEnd = driverOptions.closeOnEnd ?? !isPGliteInterface(pglite);
+
+    return class extends EventEmitter implements PoolInternal {
+        private connection: PGliteInterface | null = null;
+        private connecting: Promise<PGliteInterface> | null = null;
+        private ending = false;
+        private server: WireServer | null = null;
+        private liveNamespace: Promise<LiveNamespace> | null = null;
+        private readonly leases = new LeaseQueue();
+        private readonly context: QueryContext = {
+            driverOptions,
+            queryOptions,
+            rawParsers: undefined,
+            testTransaction: null,
+            notifications: new NotificationRouter(),
+            preparedStatements: new PreparedStatements(),
+            timeouts: {},
+            slowQueries,
+        };
+
+        constructor(options: PoolOptions = {}) {
+            super();
+            this.context.timeouts = {
+                statementTimeout: options.statement_timeout || undefined,
+                queryTimeout: options.query_timeout,
+            };
+            pools.push(this);
+        }
+
+        public async connect(callback: ConnectCallback, options: ConnectOptions = {}) {
+            let client: LeasedClient;
+            let release: Release | undefined;
+
             try {
-                this.connection = await PGlite.create({
-                    ...pgliteOptions,
-                    serializers: {
-                        [types.BOOL]: val => {
-                            if (val === 'true') return 'TRUE';
-                            if (val === true) return 'TRUE';
-                            if (val === 'false') return 'FALSE';
-                            if (val === false) return 'FALSE';
-                            if (val === 1) return 'TRUE';
-                            if (val === 0) return 'FALSE';
-                            return val;
-                        },
-                        ...pgliteOptions?.serializers,
-                    },
-                });
-                callback(null, this, noop);
+                release = await this.leases.acquire();
+                const connection = await this.getConnection();
+                // a read-only database stays read-only for every lease
+                if (options.readOnly && !driverOptions.readOnly) release = await leaseReadOnly(connection, release);
+                const releaseLease = release;
+                // a client runs its queries one after another like node-postgres does, so a canceled query is done before the next one starts
+                const queries = new LeaseQueue();
+                client = new LeasedClient(
+                    (query, paramsOrCb, cb) =>
+                        runQuery(async signal => [connection, await queries.acquire(signal)], this.context, query, paramsOrCb, cb, client),
+                    () => this.releaseClient(client, connection, releaseLease),
+                    () => isInTransaction(connection),
+                );
             } catch (error) {
+                release?.();
                 callback(error, null, noop);
+                return;
             }
+
+            callback(null, client, client.release);
         }
 
-        public async query(sqlQuery: string, cb?: QueryCallback): Promise<QueryResult>;
-        public async query(sqlQuery: string, params?: any[], callback?: QueryCallback): Promise<QueryResult>;
-        public async query(sqlQuery: string, paramsOrCb?: any[] | QueryCallback, cb?: QueryCallback): Promise<QueryResult> {
+        public async query(query: string | QueryConfig, cb?: QueryCallback): Promise<QueryResult | QueryResult[]>;
+        public async query(query: string | QueryConfig, params?: any[], callback?: QueryCallback): Promise<QueryResult | QueryResult[]>;
+        public async query(query: string | QueryConfig, paramsOrCb?: any[] | QueryCallback, cb?: QueryCallback): Promise<QueryResult | QueryResult[]> {
             if (!this.connection) {
                 throw new Error('expected connection to be initialized, did you call DataSource.initialize()?');
             }
 
-            let queryCb = cb;
-            let queryParams = paramsOrCb;
-
-            if (typeof paramsOrCb === 'function') {
-                queryCb = paramsOrCb;
-                queryParams = undefined;
+            if (this.ending) {
+                throw new Error('cannot use a pool after calling end on the pool');
             }
 
-            // esm-only in cjs context
-            const { parseQuerySync } = await import('@pg-nano/pg-parser');
-            const parsedSqlQuery = parseQuerySync(sqlQuery);
+            return runQuery(signal => this.lease(signal), this.context, query, paramsOrCb, cb);
+        }
+
+        public isIdle(): boolean {
+            return !this.leases.isLeased && !this.leases.pending;
+        }
+
+        public openTenants(): string[] {
+            return [];
+        }
+
+        public async syncReplicas() {}
 
-            // for multiple statement queries with no params, use pglite.exec, since this api accepts running multiple sql statements but doesn't support params
-            if (parsedSqlQuery.stmts.length > 1)
-                try {
-                    const results = await this.connection.exec(sqlQuery);
-                    const res = results[0];
-                    cb?.(null, res as unknown as Results<unknown>);
-                    return { rows: res?.rows ?? [], fields: res?.fields ?? [], rowCount: res?.affectedRows ?? null };
-                } catch (error) {
-                    cb?.(error, null);
+        /**
+         * PGlite's live extension, set up on the current connection. Its queries take turns with everyone else's.
+         */
+        public live(): Promise<LiveNamespace> {
+            this.liveNamespace ??= this.getConnection()
+                .then(connection =>
+                    createLiveNamespace(
+                        connection,
+                        () => this.liveSession(),
+                        () => this.context.queryOptions,
+                    ),
+                )
+                .catch(error => {
+                    this.liveNamespace = null;
                     throw error;
+                });
+            return this.liveNamespace;
+        }
+
+        public async dumpDataDir(): Promise<Blob> {
+            const release = await this.leases.acquire();
+            try {
+                const connection = await this.getConnection();
+                return await connection.dumpDataDir();
+            } finally {
+                release();
+            }
+        }
+
+        /**
+         * Swaps the PGlite instance for a new one created from the given data dir.
+         */
+        public async loadDataDir(data: Blob) {
+            if (typeof pglite === 'function' || isPGliteInterface(pglite)) {
+                throw new Error('restoring a snapshot requires a driver created from PGlite options, not from an existing instance or factory');
+            }
+
+            const directory = dataDirPath(pglite);
+            const release = await this.leases.acquire();
+            try {
+                const previousConnection = await this.getConnection();
+                if (directory) {
+                    // PGlite only loads a snapshot into an empty data dir, which the current instance has to let go of first
+                    await previousConnection.close();
+                    this.connection = null;
+                    this.connecting = null;
+                    await removeDirectory(directory);
                 }
 
+                const connection = await createConnection({ ...pglite, loadDataDir: data }, driverOptions);
+                if (!directory) await previousConnection.close();
+                this.useConnection(connection);
+                this.connecting = Promise.resolve(connection);
+                this.context.testTransaction = null;
+                // live queries of the previous instance end with it
+                this.liveNamespace = null;
+            } finally {
+                release();
+            }
+        }
+
+        public async importSql(dump: string, options: SqlImportOptions): Promise<SqlImportResult> {
+            const release = await this.leases.acquire();
             try {
-                const results = await this.connection.query(sqlQuery, queryParams as any[]);
-                let command: string | undefined;
-                if (parsedSqlQuery?.stmts?.[0]?.stmt?.UpdateStmt) {
-                    command = 'UPDATE';
-                } else if (parsedSqlQuery?.stmts?.[0]?.stmt?.DeleteStmt) {
-                    command = 'DELETE';
-                } else if (parsedSqlQuery?.stmts?.[0]?.stmt?.InsertStmt) {
-                    command = 'INSERT';
-                } else if (parsedSqlQuery?.stmts?.[0]?.stmt?.SelectStmt) {
-                    command = 'SELECT';
+                const connection = await this.getConnection();
+                return await importSql(connection, dump, options, await isInTransaction(connection), driverOptions.autoLoadExtensions ?? true);
+            } finally {
+                release();
+            }
+        }
+
+        public async copyFrom(sql: string, data: Blob): Promise<number> {
+            const result = (await this.query({ text: sql, blob: data })) as QueryResult;
+            return result.rowCount ?? 0;
+        }
+
+        public async copyTo(sql: string): Promise<Blob> {
+            const result = (await this.query(sql)) as QueryResult;
+            return result.blob ?? new Blob([]);
+        }
+
+        public async startTestTransaction() {
+            if (driverOptions.server) {
+                throw new Error(
+                    "test transactions can't be used with the server driver option, socket clients would end them with their own COMMIT or ROLLBACK",
+                );
+            }
+
+            const release = await this.leases.acquire();
+            try {
+                if (this.context.testTransaction) {
+                    throw new Error('a test transaction is already active, did you forget to roll it back?');
                 }
 
-                queryCb?.(null, results);
-                return { rows: results?.rows ?? [], fields: results?.fields ?? [], rowCount: results?.affectedRows ?? null, command };
-            } catch (error) {
-                queryCb?.(error, null);
-                throw error;
+                const connection = await this.getConnection();
+                await connection.exec('BEGIN');
+                this.context.testTransaction = new TestTransaction();
+            } finally {
+                release();
+            }
+        }
+
+        public async rollbackTestTransaction() {
+            const release = await this.leases.acquire();
+            try {
+                if (!this.context.testTransaction) return;
+
+                const connection = await this.getConnection();
+                this.context.testTransaction = null;
+                await connection.exec('ROLLBACK');
+            } finally {
+                release();
             }
         }
 
         public end(cb: (error: unknown | null) => void) {
-            this.connection
-                ?.close()
+            this.ending = true;
+            if (pools.includes(this)) pools.splice(pools.indexOf(this), 1);
+            this.leases.rejectPending(new Error('cannot use a pool after calling end on the pool'));
+
+            Promise.resolve(this.server?.close())
+                .then(() => this.leases.whenIdle())
+                .then(() => (closeOnEnd ? this.connection?.close() : undefined))
                 .then(() => {
+                    this.context.notifications.detach();
                     this.connection = null;
+                    this.connecting = null;
                     cb(null);
                 })
                 .catch(error => cb(error));
         }
+
+        /**
+         * A released client keeps its LISTEN subscriptions while it has `notification` listeners, like an idle node-postgres client stays subscribed.
+         * Otherwise they're dropped before the next lease, so they don't leak into it.
+         */
+        private releaseClient(client: LeasedClient, connection: PGliteInterface, releaseLease: Release) {
+            const { notifications } = this.context;
+            if (!client.listenerCount('notification') || !notifications.isSubscribed(client)) {
+                this.dropSubscriptions(client, connection).finally(releaseLease);
+                return;
+            }
+
+            releaseLease();
+            const onRemoveListener = () => {
+                if (client.listenerCount('notification')) return;
+                client.off('removeListener', onRemoveListener);
+                this.leases.acquire().then(release => this.dropSubscriptions(client, connection).finally(release), noop);
+            };
+            client.on('removeListener', onRemoveListener);
+        }
+
+        private async dropSubscriptions(client: LeasedClient, connection: PGliteInterface) {
+            const channels = this.context.notifications.unsubscribeAll(client);
+            if (!channels.length) return;
+
+            try {
+                await connection.exec(unlistenStatement(channels));
+            } catch {
+                // e.g. released inside an aborted transaction, notifications on channels without subscribers are ignored anyway
+            }
+        }
+
+        public serverAddress(): ServerAddress {
+            return this.server?.address() ?? null;
+        }
+
+        private async lease(signal?: AbortSignal): Promise<[PGliteInterface, Release]> {
+            const release = await this.leases.acquire(signal);
+            try {
+                return [await this.getConnection(), release];
+            } catch (error) {
+                release();
+                throw error;
+            }
+        }
+
+        // the changes of a test transaction are never committed, live queries wouldn't see them and their own transactions would end it
+        private async liveSession(): Promise<[PGliteInterface, Release]> {
+            const [connection, release] = await this.lease();
+            if (this.context.testTransaction) {
+                release();
+                throw new Error("live queries see committed changes only, they can't run inside a test transaction");
+            }
+            return [connection, release];
+        }
+
+        private getConnection(): Promise<PGliteInterface> {
+            if (this.ending) {
+                return Promise.reject(new Error('cannot use a pool after calling end on the pool'));
+            }
+
+            if (this.connection) {
+                return Promise.resolve(this.connection);
+            }
+
+            this.connecting ??= createConnection(pglite, driverOptions).then(
+                async connection => {
+                    await this.startServer(connection);
+                    this.useConnection(connection);
+                    return connection;
+                },
+                error => {
+                    this.connecting = null;
+                    throw error;
+                },
+            );
+
+            return this.connecting;
+        }
+
+        private async startServer(connection: PGliteInterface) {
+            if (!driverOptions.server || this.server) return;
+
+            try {
+                const server = await createWireServer(() => this.lease());
+                await server.listen(driverOptions.server);
+                this.server = server;
+            } catch (error) {
+                if (closeOnEnd) await connection.close();
+                throw error;
+            }
+        }
+
+        private useConnection(connection: PGliteInterface) {
+            this.connection = connection;
+            this.context.queryOptions = getConnectionQueryOptions(queryOptions, connection, driverOptions);
+            this.context.rawParsers = getRawParsers(connection, this.context.queryOptions.parsers);
+            this.context.notifications.attach(connection);
+            this.context.preparedStatements.clear();
+        }
+    };
+};
+
+/**
+ * Stands in for the pools of the driver's own database and of every tenant's, passing each call on to the one of the current tenant.
+ */
+const getTenantRouter = (
+    pglite: PGliteOptions | PGliteSource | undefined,
+    driverOptions: PGliteDriverOptions,
+    tenantOptions: TenantOptions,
+    currentTenant: () => string | undefined,
+    pools: PoolInternal[],
+    slowQueries: SlowQueryLog | undefined,
+) => {
+    // the server keeps serving the driver's own database
+    const tenantDriverOptions = { ...driverOptions, server: undefined };
+
+    return class extends EventEmitter implements PoolInternal {
+        private readonly defaultPool: PoolInternal;
+        private readonly tenantPools: TenantPools<PoolInternal>;
+
+        constructor(options: PoolOptions = {}) {
+            super();
+            // the routed pools stay out of the driver's list, the router takes their place there
+            const DefaultPool = getPool(pglite, driverOptions, [], slowQueries);
+            this.defaultPool = new DefaultPool(options);
+            this.tenantPools = new TenantPools(tenant => {
+                const TenantPool = getPool(tenantOptions.pglite(tenant), tenantDriverOptions, [], slowQueries);
+                return new TenantPool(options);
+            }, tenantOptions.maxOpen ?? 10);
+            pools.push(this);
+        }
+
+        public connect(callback: ConnectCallback) {
+            // the tenant's pool stays in use until its session is leased, from then on the lease keeps it open
+            const connect = (pool: PoolInternal) => new Promise<Parameters<typeof callback>>(resolve => pool.connect((...args) => resolve(args)));
+            this.route(connect).then(
+                args => callback(...args),
+                error => callback(error, null, noop),
+            );
+        }
+
+        public query(query: string | QueryConfig, params?: any[], callback?: QueryCallback): Promise<QueryResult | QueryResult[]> {
+            return this.route(pool => pool.query(query, params, callback));
+        }
+
+        public isIdle(): boolean {
+            return this.defaultPool.isIdle();
+        }
+
+        public openTenants(): string[] {
+            return this.tenantPools.tenants;
+        }
+
+        public async syncReplicas() {}
+
+        public live(): Promise<LiveNamespace> {
+            return this.route(pool => pool.live());
+        }
+
+        public serverAddress(): ServerAddress {
+            return this.defaultPool.serverAddress();
+        }
+
+        public dumpDataDir(): Promise<Blob> {
+            return this.route(pool => pool.dumpDataDir());
+        }
+
+        public loadDataDir(data: Blob): Promise<void> {
+            return this.route(pool => pool.loadDataDir(data));
+        }
+
+        public importSql(dump: string, options: SqlImportOptions): Promise<SqlImportResult> {
+            return this.route(pool => pool.importSql(dump, options));
+        }
+
+        public copyFrom(sql: string, data: Blob): Promise<number> {
+            return this.route(pool => pool.copyFrom(sql, data));
+        }
+
+        public copyTo(sql: string): Promise<Blob> {
+            return this.route(pool => pool.copyTo(sql));
+        }
+
+        public startTestTransaction(): Promise<void> {
+            return this.route(pool => pool.startTestTransaction());
+        }
+
+        public rollbackTestTransaction(): Promise<void> {
+            return this.route(pool => pool.rollbackTestTransaction());
+        }
+
+        public end(cb: (error: unknown | null) => void) {
+            if (pools.includes(this)) pools.splice(pools.indexOf(this), 1);
+
+            const endDefault = new Promise<void>((resolve, reject) => this.defaultPool.end(error => (error ? reject(error) : resolve())));
+            Promise.all([endDefault, this.tenantPools.end()]).then(() => cb(null), cb);
+        }
+
+        private route<T>(operation: (pool: PoolInternal) => Promise<T>): Promise<T> {
+            const tenant = currentTenant();
+            return tenant === undefined ? operation(this.defaultPool) : this.tenantPools.use(tenant, operation);
+        }
+    };
+};
+
+type Replicated = {
+    primary: PoolInternal;
+    copy: ReplicaCopy<PoolInternal> | undefined;
+};
+
+/**
+ * Stands in for the pools TypeORM creates for `replication: { master, slaves }`, which all share the master's PGlite instance.
+ * The pools of slaves the `isReplica` option picks by their credentials are replicas, everything else goes to the primary.
+ */
+const getReplicatedPool = (
+    pglite: PGliteOptions | PGliteSource | undefined,
+    driverOptions: PGliteDriverOptions,
+    replication: ReplicationOptions,
+    pools: PoolInternal[],
+    slowQueries: SlowQueryLog | undefined,
+) => {
+    const members: PoolInternal[] = [];
+    const { isReplica = isReplicaHost } = replication;
+    // the primary, and the copy of its data the replicas read from when they lag, shared by the pools of a DataSource
+    let shared: Replicated | undefined;
+
+    // the copy lives in memory and serves the replicas only
+    const copyDriverOptions = { ...driverOptions, server: undefined, closeOnEnd: true };
+    const copyOptions = (data: Blob): PGliteOptions =>
+        typeof pglite === 'function' || isPGliteInterface(pglite) ? { loadDataDir: data } : { ...pglite, dataDir: undefined, loadDataDir: data };
+
+    const replicate = (options: PoolOptions): Replicated => {
+        const PrimaryPool = getPool(pglite, driverOptions, [], slowQueries);
+        const primary = new PrimaryPool(options);
+        const { lag } = replication;
+        const copy =
+            lag === undefined
+                ? undefined
+                : new ReplicaCopy(async () => {
+                      const CopyPool = getPool(copyOptions(await primary.dumpDataDir()), copyDriverOptions, [], slowQueries);
+                      return new CopyPool(options);
+                  }, lag);
+        return { primary, copy };
+    };
+
+    const connectReadOnly = (pool: PoolInternal) =>
+        new Promise<Parameters<ConnectCallback>>(resolve => pool.connect((...args) => resolve(args), { readOnly: true }));
+
+    return class extends EventEmitter implements PoolInternal {
+        private readonly shared: Replicated;
+        private readonly isReplica: boolean;
+        private connected = false;
+
+        constructor(options: PoolOptions = {}) {
+            super();
+            shared ??= replicate(options);
+            this.shared = shared;
+            this.isReplica = isReplica(options);
+            members.push(this);
+            pools.push(this);
+        }
+
+        public connect(callback: ConnectCallback, options: ConnectOptions = {}) {
+            // TypeORM connects once when creating the pool to check it, before the master's schema exists, which a copy shouldn't be taken of yet
+            const checking = !this.connected;
+            this.connected = true;
+
+            if (!this.isReplica || checking) {
+                this.shared.primary.connect(callback, { ...options, readOnly: options.readOnly || this.isReplica });
+                return;
+            }
+
+            // the copy stays in use until its session is leased, from then on the lease keeps it open
+            this.read(connectReadOnly).then(
+                args => callback(...args),
+                error => callback(error, null, noop),
+            );
+        }
+
+        public query(query: string | QueryConfig, params?: any[], callback?: QueryCallback): Promise<QueryResult | QueryResult[]> {
+            if (!this.isReplica) return this.shared.primary.query(query, params, callback);
+
+            const [config, queryCb] = normalizeQuery(query, params, callback);
+            return this.read(connectReadOnly).then(([error, client, done]) => {
+                if (!client) {
+                    queryCb?.(error, null);
+                    throw error;
+                }
+                return client.query(config, undefined, queryCb).finally(() => done());
+            });
+        }
+
+        public isIdle(): boolean {
+            return this.shared.primary.isIdle();
+        }
+
+        public openTenants(): string[] {
+            return [];
+        }
+
+        public async syncReplicas() {
+            await this.shared.copy?.refresh();
+        }
+
+        public live(): Promise<LiveNamespace> {
+            return this.shared.primary.live();
+        }
+
+        public serverAddress(): ServerAddress {
+            return this.shared.primary.serverAddress();
+        }
+
+        public dumpDataDir(): Promise<Blob> {
+            return this.shared.primary.dumpDataDir();
+        }
+
+        public async loadDataDir(data: Blob): Promise<void> {
+            await this.shared.primary.loadDataDir(data);
+            // the replicas start over from the restored snapshot as well
+            await this.syncReplicas();
+        }
+
+        public importSql(dump: string, options: SqlImportOptions): Promise<SqlImportResult> {
+            return this.shared.primary.importSql(dump, options);
+        }
+
+        public copyFrom(sql: string, data: Blob): Promise<number> {
+            return this.shared.primary.copyFrom(sql, data);
+        }
+
+        public copyTo(sql: string): Promise<Blob> {
+            return this.shared.primary.copyTo(sql);
+        }
+
+        public startTestTransaction(): Promise<void> {
+            return this.shared.primary.startTestTransaction();
+        }
+
+        public rollbackTestTransaction(): Promise<void> {
+            return this.shared.primary.rollbackTestTransaction();
+        }
+
+        public end(cb: (error: unknown | null) => void) {
+            if (pools.includes(this)) pools.splice(pools.indexOf(this), 1);
+            if (members.includes(this)) members.splice(members.indexOf(this), 1);
+            // the last pool to end closes the primary, the next DataSource replicates a new one
+            if (members.length || shared !== this.shared) {
+                cb(null);
+                return;
+            }
+
+            shared = undefined;
+            const { primary, copy } = this.shared;
+            Promise.resolve(copy?.end())
+                .then(() => new Promise<void>((resolve, reject) => primary.end(error => (error ? reject(error) : resolve()))))
+                .then(() => cb(null), cb);
+        }
+
+        private read<T>(operation: (pool: PoolInternal) => Promise<T>): Promise<T> {
+            const { primary, copy } = this.shared;
+            return copy ? copy.use(operation) : operation(primary);
+        }
+    };
+};
+
+export type PGliteDriverInstance = {
+    Pool: PGlitePool;
+    Client: PGlitePool;
+    /**
+     * Captures the current state of the database used by the initialized DataSource, e.g. after running migrations and seeds.
+     */
+    snapshot: () => Promise<PGliteSnapshot>;
+    /**
+     * Resets the database used by the initialized DataSource back to a snapshot, without re-running any DDL.
+     * Waits for leased clients to be released, so it must not be called from inside a transaction.
+     */
+    restore: (snapshot: PGliteSnapshot) => Promise<void>;
+    /**
+     * Loads a plain SQL dump (`pg_dump --format=plain`) or seed file into the database used by the initialized DataSource,
+     * including its `COPY ... FROM stdin` sections. A failing statement rejects with a `SqlImportError` telling which one it was.
+     */
+    importSql: (dump: string, options?: SqlImportOptions) => Promise<SqlImportResult>;
+    /**
+     * Runs `COPY ... FROM STDIN` with the given data (CSV, text or binary, as the statement says) against the database used by the initialized DataSource.
+     * Resolves to the number of rows copied.
+     */
+    copyFrom: (sql: string, data: Blob | Uint8Array | string) => Promise<number>;
+    /**
+     * Runs `COPY ... TO STDOUT` against the database used by the initialized DataSource and resolves to the copied data.
+     */
+    copyTo: (sql: string) => Promise<Blob>;
+    /**
+     * Opens an outer transaction on the database used by the initialized DataSource, transactions started by the application become savepoints inside it.
+     */
+    startTestTransaction: () => Promise<void>;
+    /**
+     * Rolls back the outer transaction opened by {@link startTestTransaction}, discarding everything the test wrote.
+     */
+    rollbackTestTransaction: () => Promise<void>;
+    /**
+     * The slow queries captured so far with the `explainSlowQueries` option, kept across DataSources using this driver.
+     */
+    slowQueryReport: () => SlowQueryReport;
+    /**
+     * Where the `server` option serves the database used by the initialized DataSource, like `net.Server.address()`.
+     * Clients connect with any user and password, e.g. `psql -h 127.0.0.1 -p <port> -U postgres`.
+     * Like any other client they share the single PGlite session: a transaction opened over the socket blocks the application until it ends.
+     */
+    serverAddress: () => ServerAddress;
+    /**
+     * Runs `callback` with queries routed to the database of `tenant`, including the ones of asynchronous work it starts.
+     * Requires the `tenants` option.
+     */
+    runWithTenant: <T>(tenant: string, callback: () => T) => T;
+    /**
+     * Connects a QueryRunner to the database of `tenant`, it keeps using it until released whatever the current tenant is.
+     */
+    connectTenant: (queryRunner: { connect: () => Promise<unknown> }, tenant: string) => Promise<void>;
+    /**
+     * The tenants whose database is open, least recently used first.
+     */
+    openTenants: () => string[];
+    /**
+     * Catches the replicas of the `replication` option up with the primary right away, instead of once their lag has passed.
+     */
+    syncReplicas: () => Promise<void>;
+};
+
+/**
+ * Creates a node-postgres compatible driver for TypeORM's `driver` option.
+ * @param pglite options used to create a PGlite instance, an existing PGlite/PGliteWorker instance, or a factory returning one
+ * @param driverOptions driver specific options
+ */
+export const PGliteDriver = (pglite?: PGliteOptions | PGliteSource, driverOptions: PGliteDriverOptions = {}): PGliteDriverInstance => {
+    const pools: PoolInternal[] = [];
+    const slowQueries = driverOptions.explainSlowQueries ? new SlowQueryLog(driverOptions.explainSlowQueries) : undefined;
+    const { tenants, replication } = driverOptions;
+    if (tenants && replication) {
+        throw new Error("the tenants and replication driver options can't be combined");
+    }
+    if (driverOptions.readOnly && driverOptions.server) {
+        throw new Error("the readOnly and server driver options can't be combined, socket clients would get past the read-only checks");
+    }
+
+    let tenantStorage: TenantStorage | undefined;
+    const currentTenant = tenants?.tenant ?? (() => tenantStorage?.getStore());
+    const getPoolClass = () => {
+        if (tenants) return getTenantRouter(pglite, driverOptions, tenants, currentTenant, pools, slowQueries);
+        if (replication) return getReplicatedPool(pglite, driverOptions, replication, pools, slowQueries);
+        return getPool(pglite, driverOptions, pools, slowQueries);
+    };
+    const pgPool = getPoolClass() as unknown as PGlitePool;
+
+    const runWithTenant = <T>(tenant: string, callback: () => T): T => {
+        if (!tenants) {
+            throw new Error('queries are not routed to tenants, enable it with the tenants driver option');
+        }
+        tenantStorage ??= createTenantStorage();
+        return tenantStorage.run(tenant, callback);
+    };
+
+    const getActivePool = () => {
+        const pool = pools.at(-1);
+        if (!pool) {
+            throw new Error('no initialized DataSource is using this driver, did you call DataSource.initialize()?');
+        }
+        return pool;
     };
 
-export const PGliteDriver = (pgliteOptions?: PGliteOptions): { Pool: PGlitePool; Client: PGlitePool } => {
-    const pgPool = getPool(pgliteOptions) as unknown as PGlitePool;
     return {
         Pool: pgPool,
         Client: pgPool,
+        snapshot: async () => new PGliteSnapshot(await getActivePool().dumpDataDir()),
+        restore: async snapshot => getActivePool().loadDataDir(snapshot.data),
+        importSql: async (dump, options = {}) => getActivePool().importSql(dump, options),
+        copyFrom: async (sql, data) => getActivePool().copyFrom(sql, data instanceof Blob ? data : new Blob([data])),
+        copyTo: async sql => getActivePool().copyTo(sql),
+        startTestTransaction: async () => getActivePool().startTestTransaction(),
+        rollbackTestTransaction: async () => getActivePool().rollbackTestTransaction(),
+        serverAddress: () => getActivePool().serverAddress(),
+        runWithTenant,
+        connectTenant: async (queryRunner, tenant) => {
+            await runWithTenant(tenant, () => queryRunner.connect());
+        },
+        openTenants: () => getActivePool().openTenants(),
+        syncReplicas: async () => {
+            if (!replication) {
+                throw new Error('the driver has no replicas, enable them with the replication driver option');
+            }
+            await getActivePool().syncReplicas();
+        },
+        slowQueryReport: () => {
+            if (!slowQueries) {
+                throw new Error('slow queries are not captured, enable them with the explainSlowQueries driver option');
+            }
+            return slowQueries.report();
+        },
     };
 };
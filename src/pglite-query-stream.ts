@@ -0,0 +1,47 @@
+import { Readable } from 'node:stream';
+import { PGliteCursor, type PendingCursor, type QueryStreamLike } from './query-stream.js';
+
+/**
+ * Readable stream of the rows of a query, a drop in for pg-query-stream.
+ * Rows are fetched in batches of `batchSize` as the stream is consumed, and the underlying cursor is closed once the stream ends or is destroyed.
+ *
+ * @example
+ * const stream = client.query(new PGliteQueryStream('SELECT * FROM events WHERE type = $1', ['click'], { batchSize: 500 }));
+ * for await (const row of stream) { ... }
+ */
+export class PGliteQueryStream extends Readable implements QueryStreamLike {
+    public cursor: PendingCursor | PGliteCursor;
+
+    constructor(text: string, values?: unknown[], config: { batchSize?: number; highWaterMark?: number } = {}) {
+        super({ objectMode: true, autoDestroy: true, highWaterMark: config.batchSize || config.highWaterMark || 100 });
+        this.cursor = { text, values };
+    }
+
+    public override _read(size: number) {
+        const cursor = this.cursor;
+        if (!(cursor instanceof PGliteCursor)) {
+            this.destroy(new Error('query stream has not been submitted, pass it to client.query() first'));
+            return;
+        }
+
+        cursor.read(size, (error, rows) => {
+            if (error) {
+                this.destroy(error as Error);
+                return;
+            }
+
+            for (const row of rows) this.push(row);
+            if (rows.length < size) this.push(null);
+        });
+    }
+
+    public override _destroy(error: Error | null, cb: (error?: Error | null) => void) {
+        const cursor = this.cursor;
+        if (!(cursor instanceof PGliteCursor)) {
+            cb(error);
+            return;
+        }
+
+        cursor.close(closeError => cb((closeError as Error | undefined) ?? error));
+    }
+}
@@ -0,0 +1,57 @@
+import { type ExecProtocolResult, type PGliteInterface, type QueryOptions, parse, protocol } from '@electric-sql/pglite';
+import { type ExecProtocol, type TaggedResults, parseTaggedResults, protocolRunner, serializeParams } from './tagged-results.js';
+
+type PreparedStatement = {
+    text: string;
+    paramTypes: number[];
+};
+
+/**
+ * Named statements of a connection, parsed once on first use and only bound and executed afterwards, like node-postgres does for `{ name, text }` queries.
+ */
+export class PreparedStatements {
+    private readonly statements = new Map<string, PreparedStatement>();
+
+    /**
+     * Forgets every statement, e.g. once the connection they were prepared on is replaced.
+     */
+    public clear() {
+        this.statements.clear();
+    }
+
+    public async execute(connection: PGliteInterface, name: string, text: string, params: unknown[] = [], options: QueryOptions = {}): Promise<TaggedResults> {
+        const statement = this.statements.get(name);
+        if (statement && statement.text !== text) {
+            throw new Error(`Prepared statements must be unique - '${name}' was used for a different statement`);
+        }
+
+        return connection.runExclusive(async () => {
+            const execProtocol = protocolRunner(connection, options);
+
+            let messages: ExecProtocolResult['messages'];
+            try {
+                const prepared = statement ?? (await this.prepare(execProtocol, name, text));
+                const values = serializeParams(connection, prepared.paramTypes, params, options);
+
+                messages = [
+                    ...(await execProtocol(protocol.serialize.bind({ statement: name, values }))),
+                    ...(await execProtocol(protocol.serialize.describe({ type: 'P' }))),
+                    ...(await execProtocol(protocol.serialize.execute({}))),
+                ];
+            } finally {
+                await connection.execProtocol(protocol.serialize.sync());
+            }
+
+            return parseTaggedResults(connection, messages, options)[0] as TaggedResults;
+        });
+    }
+
+    private async prepare(execProtocol: ExecProtocol, name: string, text: string): Promise<PreparedStatement> {
+        await execProtocol(protocol.serialize.parse({ name, text }));
+        const paramTypes = parse.parseDescribeStatementResults(await execProtocol(protocol.serialize.describe({ type: 'S', name })));
+
+        const statement = { text, paramTypes };
+        this.statements.set(name, statement);
+        return statement;
+    }
+}
@@ -0,0 +1,132 @@
+import { DatabaseError } from './database-error.js';
+
+/**
+ * Timeouts in milliseconds.
+ */
+export type QueryTimeouts = {
+    /**
+     * node-postgres' `statement_timeout`, which postgres enforces itself but PGlite doesn't.
+     * Like in postgres it's measured from the moment the statement gets the session.
+     */
+    statementTimeout?: number;
+    /**
+     * node-postgres' `query_timeout`, measured from the moment the query was issued (including the time spent waiting for the session).
+     */
+    queryTimeout?: number;
+};
+
+export const queryCanceledError = (reason: string) =>
+    new DatabaseError(`canceling statement due to ${reason}`, { severity: 'ERROR', code: '57014', routine: 'ProcessInterrupts' });
+
+const isTimeout = (timeout: number | undefined): timeout is number => typeof timeout === 'number' && timeout > 0;
+
+type Deadline = { at: number; reason: string };
+
+/**
+ * Cancels a query once its `AbortSignal` aborts or one of its timeouts passes, rejecting it with `57014 query_canceled` like postgres does.
+ * A query waiting for the session is canceled right away. PGlite can't interrupt a statement while it's running,
+ * so a statement canceled past its start waits for it to complete and it's up to the caller to roll it back.
+ */
+export class QueryCancellation {
+    private readonly controller = new AbortController();
+    private readonly deadlines: Deadline[] = [];
+    private readonly timers: ReturnType<typeof setTimeout>[] = [];
+    private readonly onAbort = () => this.cancel('user request');
+    private running = false;
+
+    constructor(
+        private readonly userSignal: AbortSignal | undefined,
+        private readonly timeouts: QueryTimeouts,
+    ) {
+        this.arm(timeouts.queryTimeout, 'query timeout');
+
+        if (userSignal?.aborted) this.onAbort();
+        else userSignal?.addEventListener('abort', this.onAbort, { once: true });
+    }
+
+    public get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    /**
+     * Whether anything could still cancel the query.
+     */
+    public get cancelable(): boolean {
+        return this.deadlines.length > 0 || this.userSignal !== undefined;
+    }
+
+    /**
+     * Starts the statement timeout, once the query got the session.
+     */
+    public startStatement() {
+        this.arm(this.timeouts.statementTimeout, 'statement timeout');
+    }
+
+    /**
+     * Marks the statement as running, from here on a cancellation no longer rejects the query before the statement completed.
+     */
+    public begin() {
+        this.running = true;
+    }
+
+    /**
+     * Cancels the query if its deadline passed while PGlite kept the event loop busy, returns whether the query is canceled.
+     */
+    public check(): boolean {
+        const passed = this.signal.aborted ? undefined : this.deadlines.find(deadline => Date.now() >= deadline.at);
+        if (passed) this.cancel(passed.reason);
+        return this.signal.aborted;
+    }
+
+    /**
+     * Stops the timeouts once the statement completed, returns whether it was canceled before that.
+     */
+    public finish(): boolean {
+        const canceled = this.check();
+        this.dispose();
+        return canceled;
+    }
+
+    /**
+     * Runs the query, rejecting as soon as it's canceled while it didn't start running yet.
+     */
+    public run<T>(task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        const { signal } = this;
+
+        return new Promise<T>((resolve, reject) => {
+            if (signal.aborted) {
+                this.dispose();
+                reject(signal.reason);
+                return;
+            }
+
+            const onCancel = () => {
+                if (!this.running) reject(signal.reason);
+            };
+            signal.addEventListener('abort', onCancel, { once: true });
+            task(signal)
+                .then(resolve, reject)
+                .finally(() => {
+                    signal.removeEventListener('abort', onCancel);
+                    this.dispose();
+                });
+        });
+    }
+
+    private arm(timeout: number | undefined, reason: string) {
+        if (!isTimeout(timeout)) return;
+        this.deadlines.push({ at: Date.now() + timeout, reason });
+        this.timers.push(setTimeout(() => this.cancel(reason), timeout));
+    }
+
+    private cancel(reason: string) {
+        if (!this.signal.aborted) this.controller.abort(queryCanceledError(reason));
+    }
+
+    private dispose() {
+        for (const timer of this.timers) clearTimeout(timer);
+        this.timers.length = 0;
+        this.deadlines.length = 0;
+        this.userSignal?.removeEventListener('abort', this.onAbort);
+    }
+}
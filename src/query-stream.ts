@@ -0,0 +1,101 @@
+type RunStatement = (sqlQuery: string, params?: unknown[]) => Promise<{ rows: any[] }>;
+
+type CursorCallback = (error: unknown, rows: any[]) => void;
+
+/**
+ * Query text and values of a stream that wasn't passed to `client.query()` yet.
+ * This is also the part of pg-cursor (used by pg-query-stream) the driver relies on.
+ */
+export type PendingCursor = {
+    text: string;
+    values?: unknown[] | null;
+};
+
+/**
+ * A readable stream carrying a cursor, like pg-query-stream. Described structurally, so the driver itself doesn't need `node:stream`.
+ */
+export type QueryStreamLike = {
+    cursor: PendingCursor;
+    read: (size?: number) => unknown;
+    destroy: (error?: Error) => unknown;
+};
+
+const noop = () => {};
+
+let cursorId = 0;
+
+/**
+ * Server side cursor over a query, fetching its rows in batches with `FETCH FORWARD`.
+ * Outside of a transaction the cursor is declared `WITH HOLD`, which makes postgres materialize the result once it's declared,
+ * inside of one rows are only produced as they are fetched.
+ */
+export class PGliteCursor {
+    private readonly name = `pglite_typeorm_cursor_${++cursorId}`;
+    private declared: Promise<void> | undefined;
+    private closed = false;
+
+    constructor(
+        private readonly run: RunStatement,
+        private readonly isInTransaction: () => Promise<boolean>,
+        public readonly text: string,
+        public readonly values?: unknown[] | null,
+    ) {}
+
+    public read(rowCount: number): Promise<any[]>;
+    public read(rowCount: number, cb: CursorCallback): void;
+    public read(rowCount: number, cb?: CursorCallback): Promise<any[]> | undefined {
+        const rows = this.fetch(rowCount);
+        if (!cb) return rows;
+
+        rows.then(
+            rows => cb(null, rows),
+            error => cb(error, []),
+        );
+    }
+
+    public close(): Promise<void>;
+    public close(cb: (error?: unknown) => void): void;
+    public close(cb?: (error?: unknown) => void): Promise<void> | undefined {
+        const wasClosed = this.closed;
+        this.closed = true;
+
+        const closing =
+            wasClosed || !this.declared
+                ? Promise.resolve()
+                : this.declared.then(
+                      () => this.run(`CLOSE ${this.name}`).then(noop),
+                      // nothing to close when declaring the cursor failed
+                      noop,
+                  );
+
+        if (!cb) return closing;
+
+        closing.then(() => cb(), cb);
+    }
+
+    private async fetch(rowCount: number): Promise<any[]> {
+        if (this.closed) return [];
+
+        this.declared ??= this.isInTransaction()
+            .then(inTransaction =>
+                this.run(`DECLARE ${this.name} NO SCROLL CURSOR ${inTransaction ? 'WITHOUT' : 'WITH'} HOLD FOR ${this.text}`, this.values ?? undefined),
+            )
+            .then(noop);
+        await this.declared;
+
+        const { rows } = await this.run(`FETCH FORWARD ${Math.max(1, Math.floor(rowCount))} FROM ${this.name}`);
+        return rows;
+    }
+}
+
+export const isQueryStream = (value: unknown): value is QueryStreamLike =>
+    typeof (value as Partial<QueryStreamLike>).read === 'function' && typeof (value as Partial<QueryStreamLike>).cursor?.text === 'string';
+
+/**
+ * Backs a pg-query-stream (or `PGliteQueryStream`) with a PGlite cursor, the stream's own read/destroy logic then drives it.
+ */
+export const submitQueryStream = <T extends QueryStreamLike>(stream: T, run: RunStatement, isInTransaction: () => Promise<boolean>): T => {
+    const { text, values } = stream.cursor;
+    stream.cursor = new PGliteCursor(run, isInTransaction, text, values);
+    return stream;
+};
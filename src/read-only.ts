@@ -0,0 +1,57 @@
+import { DatabaseError } from './database-error.js';
+import type { AnalyzedQuery, AnalyzedStatement, Statement } from './statements.js';
+
+const writeCommands = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE', 'REFRESH', 'REINDEX', 'CLUSTER', 'VACUUM', 'ANALYZE']);
+
+const schemaCommands = new Set(['CREATE', 'ALTER', 'DROP', 'COMMENT', 'GRANT', 'REVOKE', 'SECURITY', 'IMPORT', 'REASSIGN']);
+
+// data modifying CTEs (`WITH moved AS (DELETE ...) SELECT ...`) make a SELECT write
+const hasWritingCte = (stmt: Statement): boolean =>
+    'SelectStmt' in stmt &&
+    !!stmt.SelectStmt.withClause?.ctes.some((cte: { CommonTableExpr?: { ctequery?: object } }) => {
+        const query = cte.CommonTableExpr?.ctequery;
+        return !!query && !('SelectStmt' in query);
+    });
+
+// `EXPLAIN ANALYZE` runs the statement it explains
+const explainedWrite = (stmt: Statement): Statement | undefined => {
+    if (!('ExplainStmt' in stmt)) return undefined;
+
+    const { query, options } = stmt.ExplainStmt;
+    const analyze = options?.some((option: { DefElem?: { defname?: string } }) => option.DefElem?.defname === 'analyze');
+    return analyze && query && isWrite(query) ? query : undefined;
+};
+
+const isWrite = (stmt: Statement): boolean => {
+    if ('CreateTableAsStmt' in stmt) return true;
+    if ('SelectStmt' in stmt) return !!stmt.SelectStmt.intoClause || hasWritingCte(stmt);
+    if ('CopyStmt' in stmt) return !!stmt.CopyStmt.is_from;
+    if ('PrepareStmt' in stmt) return !!stmt.PrepareStmt.query && isWrite(stmt.PrepareStmt.query);
+    return !!explainedWrite(stmt);
+};
+
+/**
+ * Whether a statement writes to the database, data and schema changes alike.
+ */
+export const writesToDatabase = ({ command, stmt }: AnalyzedStatement) =>
+    writeCommands.has(command ?? '') || schemaCommands.has(command ?? '') || (!!stmt && isWrite(stmt));
+
+/**
+ * Rejects a query writing to the database (INSERT, UPDATE, DELETE, DDL, ...) before any of its statements runs,
+ * with the `25006 read_only_sql_transaction` error postgres raises for them in a read-only transaction.
+ * Whatever gets past it, like functions writing from a SELECT, is still stopped by `default_transaction_read_only`.
+ */
+export const rejectWrites = (analyzedQuery: AnalyzedQuery) => {
+    const statement = analyzedQuery.statements.find(writesToDatabase);
+    if (!statement) return;
+
+    // TypeORM's synchronize and migrations end up here on their first schema change
+    const changesSchema = schemaCommands.has(statement.command ?? '') || (!!statement.stmt && 'CreateTableAsStmt' in statement.stmt);
+    const message = `cannot execute ${statement.command} in a read-only transaction`;
+    throw new DatabaseError(
+        changesSchema
+            ? `${message}: the readOnly driver option doesn't allow schema changes, turn off synchronize and migrationsRun for DataSources using it`
+            : message,
+        { severity: 'ERROR', code: '25006', hint: 'the database was opened with the readOnly driver option', routine: 'PreventCommandIfReadOnly' },
+    );
+};
@@ -0,0 +1,119 @@
+export type ReplicationOptions = {
+    /**
+     * Milliseconds the replicas may fall behind the primary. Without it they're read-only sessions on the primary's PGlite instance and see every write right away.
+     * With it each replica reads from a copy of the primary's data, replaced in the background once it's older than `lag`,
+     * see {@link PGliteDriverInstance.syncReplicas}.
+     */
+    lag?: number;
+    /**
+     * Tells the pools TypeORM creates for the `slaves` apart from the master's, by the credentials it creates them with.
+     * Defaults to the slaves whose `host` is `replica`, like in `replication: { master: {}, slaves: [{ host: 'replica' }] }`.
+     */
+    isReplica?: (credentials: PoolCredentials) => boolean;
+};
+
+/**
+ * The credentials of the `master` or a slave TypeORM creates a pool with, as node-postgres pool options.
+ */
+export type PoolCredentials = {
+    connectionString?: string;
+    host?: string;
+    port?: number;
+    user?: string;
+    database?: string;
+    application_name?: string;
+};
+
+export const isReplicaHost = ({ host }: PoolCredentials) => host === 'replica';
+
+type CopyPool = {
+    end: (cb: (error: unknown | null) => void) => void;
+};
+
+type Copy<P> = {
+    pool: P;
+    takenAt: number;
+    /**
+     * Operations between picking the copy and leasing its session, it's only closed once they're done.
+     */
+    users: number;
+    replaced: boolean;
+};
+
+const endPool = (pool: CopyPool) => new Promise<void>((resolve, reject) => pool.end(error => (error ? reject(error) : resolve())));
+
+/**
+ * The copy of the primary's data a lagging replica reads from.
+ * A copy older than the lag is replaced in the background, reads keep going to the previous one until the next one is loaded.
+ */
+export class ReplicaCopy<P extends CopyPool> {
+    private current: Copy<P> | undefined;
+    private refreshing: Promise<void> | undefined;
+    private readonly closing = new Set<Promise<void>>();
+
+    constructor(
+        private readonly createCopy: () => Promise<P>,
+        private readonly lag: number,
+    ) {}
+
+    public async use<T>(operation: (pool: P) => Promise<T>): Promise<T> {
+        if (!this.current) await this.refresh();
+        // refresh() either set a copy or threw
+        const copy = this.current as Copy<P>;
+
+        if (performance.now() - copy.takenAt >= this.lag) {
+            // a failing refresh is tried again by the next read
+            this.refresh().catch(() => {});
+        }
+
+        copy.users++;
+        try {
+            return await operation(copy.pool);
+        } finally {
+            copy.users--;
+            if (copy.replaced) this.close(copy);
+        }
+    }
+
+    /**
+     * Replaces the copy with a fresh one, taken once the primary's session is free.
+     */
+    public refresh(): Promise<void> {
+        this.refreshing ??= this.replace().finally(() => {
+            this.refreshing = undefined;
+        });
+        return this.refreshing;
+    }
+
+    public async end(): Promise<void> {
+        await this.refreshing?.catch(() => {});
+        const copy = this.current;
+        this.current = undefined;
+        if (copy) {
+            copy.replaced = true;
+            this.close(copy);
+        }
+        await Promise.all(this.closing);
+    }
+
+    private async replace() {
+        const takenAt = performance.now();
+        const pool = await this.createCopy();
+
+        const previous = this.current;
+        this.current = { pool, takenAt, users: 0, replaced: false };
+        if (previous) {
+            previous.replaced = true;
+            this.close(previous);
+        }
+    }
+
+    private close(copy: Copy<P>) {
+        if (copy.users) return;
+
+        const closing = endPool(copy.pool)
+            .catch(() => {})
+            .finally(() => this.closing.delete(closing));
+        this.closing.add(closing);
+    }
+}
@@ -0,0 +1,60 @@
+import type { parseQuerySync } from '@pg-nano/pg-parser';
+import type { TenantStorage } from './tenants.js';
+import type { WireServer } from './wire-server.js';
+
+/**
+ * Browser and edge runtime variant of `runtime.ts`, without node modules.
+ */
+
+const unavailable = (feature: string) => new Error(`${feature} is only available in node`);
+
+type SqlError = Error & { sqlDetails?: { cursorPosition: number; fileName?: string; functionName?: string; lineNumber?: number } };
+
+// the native pg-parser can't run here, libpg-query is the same parser compiled to wasm
+export const importParser = async (): Promise<{ parseQuerySync: typeof parseQuerySync }> => {
+    const { loadModule, parseSync } = await import('libpg-query');
+    await loadModule();
+
+    return {
+        parseQuerySync: sqlQuery => {
+            try {
+                return parseSync(sqlQuery) as ReturnType<typeof parseQuerySync>;
+            } catch (error) {
+                // same fields as pg-parser errors, so they become syntax errors
+                throw Object.assign(error as SqlError, (error as SqlError).sqlDetails);
+            }
+        },
+    };
+};
+
+export const readFile = async (_path: string): Promise<Uint8Array> => {
+    throw unavailable('reading files');
+};
+
+export const removeFile = async (_path: string): Promise<void> => {
+    throw unavailable('removing files');
+};
+
+export const removeDirectory = async (_path: string): Promise<void> => {
+    throw unavailable('removing directories');
+};
+
+export const tempFilePath = async (_prefix: string, _extension: string): Promise<string> => {
+    throw unavailable('writing temp files');
+};
+
+export const writeFile = async (_path: string, _data: Uint8Array): Promise<void> => {
+    throw unavailable('writing files');
+};
+
+export const onExit = (_handler: (writeFileSync: (path: string, data: string) => void) => void) => {
+    throw unavailable('writing a report file at exit');
+};
+
+export const createWireServer = async (..._args: ConstructorParameters<typeof WireServer>): Promise<WireServer> => {
+    throw unavailable('the wire protocol server');
+};
+
+export const createTenantStorage = (): TenantStorage => {
+    throw new Error('runWithTenant needs AsyncLocalStorage, which is only available in node, pass the tenant option to read tenants from elsewhere');
+};
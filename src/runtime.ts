@@ -0,0 +1,58 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { TenantStorage } from './tenants.js';
+import type { WireServer } from './wire-server.js';
+
+/**
+ * Everything the driver needs from node, loaded only once it's used.
+ * The browser build replaces this module with `runtime-browser.mts`, so bundlers never come across node modules.
+ */
+
+// esm-only in cjs context
+export const importParser = () => import('@pg-nano/pg-parser');
+
+export const readFile = async (path: string): Promise<Uint8Array> => {
+    const { readFile } = await import('node:fs/promises');
+    return readFile(path);
+};
+
+export const removeFile = async (path: string): Promise<void> => {
+    const { rm } = await import('node:fs/promises');
+    await rm(path, { force: true });
+};
+
+/**
+ * Removes a directory along with everything in it, like a data dir a snapshot is restored into.
+ */
+export const removeDirectory = async (path: string): Promise<void> => {
+    const { rm } = await import('node:fs/promises');
+    await rm(path, { recursive: true, force: true });
+};
+
+/**
+ * A path in the temp dir nothing else uses, for a file named after `prefix`.
+ */
+export const tempFilePath = async (prefix: string, extension: string): Promise<string> => {
+    const [{ tmpdir }, { join }] = await Promise.all([import('node:os'), import('node:path')]);
+    return join(tmpdir(), `${prefix}-${process.pid}-${Date.now().toString(36)}${extension}`);
+};
+
+export const writeFile = async (path: string, data: Uint8Array): Promise<void> => {
+    const { writeFile } = await import('node:fs/promises');
+    await writeFile(path, data);
+};
+
+/**
+ * Calls `handler` when the process exits, with a synchronous way to write files since nothing asynchronous runs at that point.
+ */
+export const onExit = (handler: (writeFileSync: (path: string, data: string) => void) => void) => {
+    // loaded right away, since the exit handler has to write synchronously
+    import('node:fs').then(({ writeFileSync }) => process.once('exit', () => handler(writeFileSync)));
+};
+
+export const createWireServer = async (...args: ConstructorParameters<typeof WireServer>): Promise<WireServer> => {
+    const { WireServer } = await import('./wire-server.js');
+    return new WireServer(...args);
+};
+
+// loaded along with the module, tenants are read synchronously
+export const createTenantStorage = (): TenantStorage => new AsyncLocalStorage<string>();
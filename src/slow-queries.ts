@@ -0,0 +1,153 @@
+import type { PGliteInterface, QueryOptions } from '@electric-sql/pglite';
+import { onExit } from './runtime.js';
+
+export type ExplainSlowQueriesOptions = {
+    /**
+     * Queries running for at least this many milliseconds are explained.
+     */
+    threshold: number;
+    /**
+     * Writes the report as JSON to this file when the process exits.
+     */
+    reportFile?: string;
+};
+
+export type SlowQuery = {
+    sql: string;
+    command: string | undefined;
+    /**
+     * How often the query ran over the threshold.
+     */
+    count: number;
+    totalDuration: number;
+    maxDuration: number;
+    /**
+     * Parameters of the slowest run, the one the plan belongs to.
+     */
+    params: unknown[] | undefined;
+    /**
+     * Output of `EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON)` for the slowest run, missing for statements that can't be explained.
+     */
+    plan?: unknown;
+    /**
+     * Whether the plan comes with actual timings and buffer usage. Writes are only planned, with `EXPLAIN (FORMAT JSON)`,
+     * since running them again has side effects a rollback doesn't undo (like sequence increments). So are reads that fail to run again read-only.
+     */
+    analyzed?: boolean;
+    /**
+     * Why explaining the query failed.
+     */
+    explainError?: string;
+};
+
+export type SlowQueryReport = {
+    threshold: number;
+    /**
+     * One entry per distinct SQL text, slowest first.
+     */
+    queries: SlowQuery[];
+};
+
+type SlowRun = {
+    sql: string;
+    params: unknown[] | undefined;
+    command: string | undefined;
+    duration: number;
+};
+
+const explainSavepoint = 'pglite_typeorm_explain';
+
+const explain = async (connection: PGliteInterface, explainOptions: string, sql: string, params: unknown[] | undefined, options: QueryOptions) => {
+    const { rows } = await connection.query<{ 'QUERY PLAN': unknown }>(`EXPLAIN (${explainOptions}) ${sql}`, params, { ...options, rowMode: 'object' });
+    const plan = rows[0]?.['QUERY PLAN'];
+    return (typeof plan === 'string' ? JSON.parse(plan) : plan)?.[0];
+};
+
+/**
+ * Runs a read-only query again with `EXPLAIN ANALYZE` in a read-only transaction (or savepoint), so functions with side effects fail instead of running.
+ * Writes, and reads that fail to run again, are only planned.
+ */
+export const explainQuery = async (
+    connection: PGliteInterface,
+    sql: string,
+    params: unknown[] | undefined,
+    options: QueryOptions,
+    inTransaction: boolean,
+    writes: boolean,
+): Promise<Pick<SlowQuery, 'plan' | 'analyzed'>> => {
+    if (writes) return { plan: await explain(connection, 'FORMAT JSON', sql, params, options), analyzed: false };
+
+    await connection.exec(inTransaction ? `SAVEPOINT ${explainSavepoint}; SET transaction_read_only = on` : 'BEGIN READ ONLY');
+    try {
+        return { plan: await explain(connection, 'ANALYZE, BUFFERS, FORMAT JSON', sql, params, options), analyzed: true };
+    } catch {
+        await connection.exec(inTransaction ? `ROLLBACK TO SAVEPOINT ${explainSavepoint}` : 'ROLLBACK; BEGIN');
+        return { plan: await explain(connection, 'FORMAT JSON', sql, params, options), analyzed: false };
+    } finally {
+        await connection.exec(inTransaction ? `ROLLBACK TO SAVEPOINT ${explainSavepoint}; RELEASE SAVEPOINT ${explainSavepoint}` : 'ROLLBACK');
+    }
+};
+
+const reportFiles = new Map<string, SlowQueryLog[]>();
+
+const writeReports = (writeFileSync: (file: string, data: string) => void) => {
+    for (const [file, logs] of reportFiles) {
+        const reports = logs.map(log => log.report());
+        const queries = reports.flatMap(report => report.queries).sort((a, b) => b.maxDuration - a.maxDuration);
+        writeFileSync(file, JSON.stringify({ threshold: reports[0]?.threshold, queries }, null, 2));
+    }
+};
+
+const writeReportAtExit = (file: string, log: SlowQueryLog) => {
+    const logs = reportFiles.get(file);
+    if (logs) {
+        logs.push(log);
+        return;
+    }
+
+    reportFiles.set(file, [log]);
+    if (reportFiles.size > 1) return;
+    onExit(writeReports);
+};
+
+/**
+ * Collects the queries that went over the threshold along with the plan of their slowest run.
+ */
+export class SlowQueryLog {
+    private readonly queries = new Map<string, SlowQuery>();
+
+    constructor(private readonly options: ExplainSlowQueriesOptions) {
+        if (options.reportFile) writeReportAtExit(options.reportFile, this);
+    }
+
+    /**
+     * Records a query run, explaining it when it's slower than any earlier run of the same SQL.
+     */
+    public async record(run: SlowRun, explain: (() => Promise<Pick<SlowQuery, 'plan' | 'analyzed'>>) | undefined) {
+        if (run.duration < this.options.threshold) return;
+
+        const previous = this.queries.get(run.sql);
+        const count = (previous?.count ?? 0) + 1;
+        const totalDuration = (previous?.totalDuration ?? 0) + run.duration;
+
+        if (previous && run.duration <= previous.maxDuration) {
+            Object.assign(previous, { count, totalDuration });
+            return;
+        }
+
+        const query: SlowQuery = { sql: run.sql, command: run.command, count, totalDuration, maxDuration: run.duration, params: run.params };
+        try {
+            if (explain) Object.assign(query, await explain());
+        } catch (error) {
+            query.explainError = error instanceof Error ? error.message : String(error);
+        }
+        this.queries.set(run.sql, query);
+    }
+
+    public report(): SlowQueryReport {
+        return {
+            threshold: this.options.threshold,
+            queries: [...this.queries.values()].map(query => ({ ...query })).sort((a, b) => b.maxDuration - a.maxDuration),
+        };
+    }
+}
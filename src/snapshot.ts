@@ -0,0 +1,30 @@
+import type { PGliteOptions } from '@electric-sql/pglite';
+import { readFile, writeFile } from './runtime.js';
+
+/**
+ * A point in time copy of a PGlite data directory, as produced by `PGlite.dumpDataDir`.
+ */
+export class PGliteSnapshot {
+    constructor(public readonly data: Blob) {}
+
+    /**
+     * Reads a snapshot previously written with {@link PGliteSnapshot.toFile}.
+     */
+    public static async fromFile(path: string): Promise<PGliteSnapshot> {
+        return new PGliteSnapshot(new Blob([await readFile(path)]));
+    }
+
+    /**
+     * Persists the snapshot as a tarball.
+     */
+    public async toFile(path: string): Promise<void> {
+        await writeFile(path, new Uint8Array(await this.data.arrayBuffer()));
+    }
+
+    /**
+     * PGlite options starting a new database from this snapshot, e.g. `PGliteDriver(snapshot.toPGliteOptions())`.
+     */
+    public toPGliteOptions(pgliteOptions?: PGliteOptions): PGliteOptions {
+        return { ...pgliteOptions, loadDataDir: this.data };
+    }
+}
@@ -0,0 +1,345 @@
+import type { PGliteInterface } from '@electric-sql/pglite';
+import { toBlobCopy } from './copy.js';
+import { type DatabaseError, toDatabaseError } from './database-error.js';
+import { checkRequestedExtensions } from './extensions.js';
+import { type Statement, getCommand, parseQuery } from './statements.js';
+
+export type SqlImportProgress = {
+    /**
+     * Number of the statement that just ran, counting from 1.
+     */
+    statement: number;
+    statements: number;
+    command: string | undefined;
+    /**
+     * Line of the dump the statement starts on.
+     */
+    line: number;
+};
+
+export type SqlImportOptions = {
+    /**
+     * Runs the whole dump in a single transaction (a savepoint when one is open already), so a failing dump leaves nothing behind,
+     * like `psql --single-transaction`. On by default.
+     */
+    singleTransaction?: boolean;
+    /**
+     * Called after each statement of the dump ran.
+     */
+    onProgress?: (progress: SqlImportProgress) => void;
+};
+
+export type SqlImportResult = {
+    statements: number;
+    /**
+     * Rows loaded by the `COPY ... FROM stdin` sections.
+     */
+    copiedRows: number;
+};
+
+/**
+ * A statement of a dump that failed to run, or a dump that couldn't be split into statements.
+ * The error postgres (or the parser) reported is its `cause`.
+ */
+export class SqlImportError extends Error {
+    public override name = 'SqlImportError';
+
+    constructor(
+        message: string,
+        /**
+         * Number of the failing statement, counting from 1, `undefined` when the dump couldn't be parsed.
+         */
+        public readonly statement: number | undefined,
+        public readonly line: number,
+        public readonly sql: string | undefined,
+        cause: DatabaseError | Error,
+    ) {
+        super(message, { cause });
+    }
+}
+
+type DumpStatement = {
+    sql: string;
+    line: number;
+    stmt: Statement | undefined;
+    /**
+     * Rows following a `COPY ... FROM stdin` statement, in COPY's text format.
+     */
+    copyData?: string;
+};
+
+// pg_dump writes every COPY of a plain dump on a line of its own, followed by its rows and a `\.` line
+const copyFromStdin = /^COPY\b.*\bFROM\s+stdin\s*;\s*$/i;
+const endOfCopyData = '\\.';
+
+const leadingComments = /^(?:\s+|--[^\n]*(?:\n|$))*/;
+
+/**
+ * Where the SQL lexer is at the end of a line: inside a string, quoted identifier, dollar quoted body or block comment, or `undefined` between tokens.
+ */
+type LexerState = { inside?: 'string' | 'escapeString' | 'identifier' | 'dollarQuote' | 'comment'; tag?: string; depth?: number };
+
+const dollarQuoteTag = /^\$(?:[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)?\$/;
+const identifierCharacter = /[\w$\u0080-\uffff]/;
+
+// `E'...'` strings take backslash escapes, plain ones don't since pg_dump turns standard_conforming_strings on
+const isEscapeStringPrefix = (line: string, index: number) =>
+    (line[index - 1] === 'E' || line[index - 1] === 'e') && !identifierCharacter.test(line[index - 2] ?? '');
+
+/**
+ * Carries the lexer state over a line, so a line starting with a backslash or looking like a `COPY` inside a string or function body isn't taken for one.
+ */
+const scanLine = (line: string, { inside, tag = '', depth = 0 }: LexerState): LexerState => {
+    let index = 0;
+    while (index < line.length) {
+        const character = line[index];
+        const next = line[index + 1];
+
+        if (inside === 'string' || inside === 'escapeString') {
+            if (inside === 'escapeString' && character === '\\') index += 1;
+            else if (character === "'" && next === "'") index += 1;
+            else if (character === "'") inside = undefined;
+            index += 1;
+        } else if (inside === 'identifier') {
+            if (character === '"') inside = undefined;
+            index += 1;
+        } else if (inside === 'dollarQuote') {
+            if (line.startsWith(tag, index)) {
+                inside = undefined;
+                index += tag.length;
+            } else {
+                index += 1;
+            }
+        } else if (inside === 'comment') {
+            // block comments nest
+            if (character === '*' && next === '/') {
+                depth -= 1;
+                if (!depth) inside = undefined;
+                index += 2;
+            } else if (character === '/' && next === '*') {
+                depth += 1;
+                index += 2;
+            } else {
+                index += 1;
+            }
+        } else if (character === '-' && next === '-') {
+            break;
+        } else if (character === '/' && next === '*') {
+            inside = 'comment';
+            depth = 1;
+            index += 2;
+        } else if (character === "'") {
+            inside = isEscapeStringPrefix(line, index) ? 'escapeString' : 'string';
+            index += 1;
+        } else if (character === '"') {
+            inside = 'identifier';
+            index += 1;
+        } else {
+            const dollarQuote = character === '$' && !identifierCharacter.test(line[index - 1] ?? '') ? dollarQuoteTag.exec(line.slice(index))?.[0] : undefined;
+            if (dollarQuote) {
+                inside = 'dollarQuote';
+                tag = dollarQuote;
+            }
+            index += dollarQuote?.length ?? 1;
+        }
+    }
+    return { inside, tag, depth };
+};
+
+const newline = 0x0a;
+
+const encoder = new TextEncoder();
+
+const countNewlines = (bytes: Uint8Array, start: number, end: number) => {
+    let count = 0;
+    for (let index = start; index < end; index++) if (bytes[index] === newline) count++;
+    return count;
+};
+
+/**
+ * Splits SQL text into its statements through the parser, which reports their locations in bytes.
+ */
+const splitStatements = async (text: string, firstLine: number): Promise<DumpStatement[]> => {
+    if (!text.trim()) return [];
+
+    const bytes = encoder.encode(text);
+    const decoder = new TextDecoder();
+
+    let parsed: Awaited<ReturnType<typeof parseQuery>>;
+    try {
+        parsed = await parseQuery(text);
+    } catch (error) {
+        const databaseError = toDatabaseError(error, text);
+        const position = Number(databaseError.position ?? 0);
+        const line = firstLine + countNewlines(bytes, 0, Math.min(position, bytes.length));
+        throw new SqlImportError(`${databaseError.message} at line ${line}`, undefined, line, undefined, databaseError);
+    }
+
+    const statements: DumpStatement[] = [];
+    let offset = 0;
+    let line = firstLine;
+    for (const { stmt, stmt_location = 0, stmt_len = 0 } of parsed.stmts) {
+        const raw = decoder.decode(bytes.subarray(stmt_location, stmt_len ? stmt_location + stmt_len : undefined));
+        // pg_dump puts a comment in front of every statement, the statement starts after it
+        const comments = leadingComments.exec(raw)?.[0] ?? '';
+        const start = stmt_location + encoder.encode(comments).length;
+
+        line += countNewlines(bytes, offset, start);
+        offset = start;
+        statements.push({ sql: raw.slice(comments.length).trimEnd(), line, stmt });
+    }
+    return statements;
+};
+
+/**
+ * Splits a plain dump into its statements, with the rows of `COPY ... FROM stdin` attached to their statement.
+ * psql meta commands (lines starting with a backslash, like `\connect`) are left out. Both are only looked for on lines
+ * that don't continue a string, quoted identifier, dollar quoted body or comment.
+ */
+export const splitDump = async (dump: string): Promise<DumpStatement[]> => {
+    const statements: DumpStatement[] = [];
+    let segment: string[] = [];
+    let segmentLine = 1;
+    let copy: { statement: DumpStatement; rows: string[] } | undefined;
+    let lexer: LexerState = {};
+
+    const flush = async (nextLine: number) => {
+        if (segment.length) statements.push(...(await splitStatements(segment.join('\n'), segmentLine)));
+        segment = [];
+        segmentLine = nextLine;
+    };
+
+    for (const [index, text] of dump.split('\n').entries()) {
+        const line = index + 1;
+        const content = text.endsWith('\r') ? text.slice(0, -1) : text;
+
+        if (copy) {
+            if (content === endOfCopyData) {
+                copy.statement.copyData = copy.rows.map(row => `${row}\n`).join('');
+                copy = undefined;
+                segmentLine = line + 1;
+            } else {
+                copy.rows.push(content);
+            }
+        } else if (!lexer.inside && content.startsWith('\\')) {
+            await flush(line + 1);
+        } else if (!lexer.inside && copyFromStdin.test(content)) {
+            await flush(line + 1);
+            const [statement] = await splitStatements(content, line);
+            if (statement) {
+                statements.push(statement);
+                copy = { statement, rows: [] };
+            }
+        } else {
+            segment.push(text);
+            lexer = scanLine(content, lexer);
+        }
+    }
+
+    if (copy) {
+        const { statement } = copy;
+        throw new SqlImportError(
+            `the rows of the COPY at line ${statement.line} don't end with a \\. line`,
+            undefined,
+            statement.line,
+            statement.sql,
+            new Error('unterminated COPY data'),
+        );
+    }
+
+    await flush(segmentLine);
+    return statements;
+};
+
+// settings a user can change with SET or set_config()
+const sessionSettings = "SELECT name, setting FROM pg_settings WHERE context IN ('user', 'superuser')";
+
+const readSettings = async (connection: PGliteInterface) => {
+    const { rows } = await connection.query<{ name: string; setting: string }>(sessionSettings, [], { rowMode: 'object' });
+    return new Map(rows.map(({ name, setting }) => [name, setting]));
+};
+
+// dumps set what they need for themselves (an empty search_path, no statement timeout, ...), which mustn't stick to the application's session
+const restoreSettings = async (connection: PGliteInterface, settings: Map<string, string>) => {
+    for (const [name, setting] of await readSettings(connection)) {
+        const previous = settings.get(name);
+        if (previous !== undefined && previous !== setting) await connection.query('SELECT set_config($1, $2, false)', [name, previous]);
+    }
+};
+
+// settings of newer postgres versions than PGlite's, which pg_dump sets at the top of every dump
+const isUnknownSetting = async (connection: PGliteInterface, stmt: Statement | undefined) => {
+    if (!stmt || !('VariableSetStmt' in stmt)) return false;
+
+    const { name } = stmt.VariableSetStmt;
+    // custom settings (`my.setting`) can always be set
+    if (!name || name.includes('.')) return false;
+
+    const { rows } = await connection.query<{ setting: string | null }>('SELECT current_setting($1, true) AS setting', [name], { rowMode: 'object' });
+    return rows[0]?.setting === null;
+};
+
+const runStatement = async (connection: PGliteInterface, { sql, stmt, copyData }: DumpStatement, autoLoadExtensions: boolean): Promise<number> => {
+    if (copyData !== undefined) {
+        // PGlite reads COPY data from the blob passed along with the query
+        const result = await connection.query(toBlobCopy(sql), [], { blob: new Blob([copyData]) });
+        return result.affectedRows ?? 0;
+    }
+
+    if (await isUnknownSetting(connection, stmt)) return 0;
+    if (autoLoadExtensions) await checkRequestedExtensions(connection, [stmt]);
+
+    await connection.exec(sql);
+    return 0;
+};
+
+const importSavepoint = 'pglite_typeorm_import';
+
+/**
+ * Runs a plain SQL dump (`pg_dump --format=plain`) or seed file statement by statement, including its `COPY ... FROM stdin` sections.
+ * Settings the dump changes are put back afterwards, ones this postgres doesn't know are skipped.
+ */
+export const importSql = async (
+    connection: PGliteInterface,
+    dump: string,
+    options: SqlImportOptions,
+    inTransaction: boolean,
+    autoLoadExtensions: boolean,
+): Promise<SqlImportResult> => {
+    const statements = await splitDump(dump);
+    const singleTransaction = options.singleTransaction ?? true;
+    const settings = await readSettings(connection);
+
+    if (singleTransaction) await connection.exec(inTransaction ? `SAVEPOINT ${importSavepoint}` : 'BEGIN');
+
+    let copiedRows = 0;
+    try {
+        for (const [index, statement] of statements.entries()) {
+            try {
+                copiedRows += await runStatement(connection, statement, autoLoadExtensions);
+            } catch (error) {
+                const databaseError = toDatabaseError(error, statement.sql);
+                throw new SqlImportError(
+                    `statement ${index + 1} of ${statements.length} (line ${statement.line}) failed: ${databaseError.message}`,
+                    index + 1,
+                    statement.line,
+                    statement.sql,
+                    databaseError,
+                );
+            }
+            options.onProgress?.({ statement: index + 1, statements: statements.length, command: getCommand(statement.stmt), line: statement.line });
+        }
+
+        if (singleTransaction) await connection.exec(inTransaction ? `RELEASE SAVEPOINT ${importSavepoint}` : 'COMMIT');
+    } catch (error) {
+        if (singleTransaction) {
+            await connection.exec(inTransaction ? `ROLLBACK TO SAVEPOINT ${importSavepoint}; RELEASE SAVEPOINT ${importSavepoint}` : 'ROLLBACK');
+        }
+        // the session may not take queries anymore (a failed statement inside an outer transaction), the import error is what matters
+        await restoreSettings(connection, settings).catch(() => {});
+        throw error;
+    }
+
+    await restoreSettings(connection, settings);
+    return { statements: statements.length, copiedRows };
+};
@@ -0,0 +1,120 @@
+import { LruCache } from './lru-cache.js';
+import { importParser } from './runtime.js';
+
+let parser: ReturnType<typeof importParser> | undefined;
+
+export const parseQuery = async (sqlQuery: string) => {
+    parser ??= importParser();
+    const { parseQuerySync } = await parser;
+    return parseQuerySync(sqlQuery);
+};
+
+export type ParsedQuery = Awaited<ReturnType<typeof parseQuery>>;
+
+export type Statement = ParsedQuery['stmts'][number]['stmt'];
+
+export type AnalyzedStatement = {
+    command: string | undefined;
+    /**
+     * Parsed statement, missing for queries that took the fast path.
+     */
+    stmt?: Statement;
+};
+
+export type AnalyzedQuery = {
+    statements: AnalyzedStatement[];
+};
+
+// statements whose command tag doesn't start with the first word of their node name
+const commandOverrides: Record<string, string> = {
+    CreateTableAsStmt: 'SELECT',
+    CreatedbStmt: 'CREATE',
+    CompositeTypeStmt: 'CREATE',
+    DefineStmt: 'CREATE',
+    IndexStmt: 'CREATE',
+    RuleStmt: 'CREATE',
+    ViewStmt: 'CREATE',
+    DropdbStmt: 'DROP',
+    RenameStmt: 'ALTER',
+    CheckPointStmt: 'CHECKPOINT',
+    ClosePortalStmt: 'CLOSE',
+    ConstraintsSetStmt: 'SET',
+    DeclareCursorStmt: 'DECLARE',
+    RefreshMatViewStmt: 'REFRESH',
+    SecLabelStmt: 'SECURITY',
+    VariableShowStmt: 'SHOW',
+};
+
+const transactionCommands: Record<string, string> = {
+    TRANS_STMT_BEGIN: 'BEGIN',
+    TRANS_STMT_START: 'START',
+    TRANS_STMT_COMMIT: 'COMMIT',
+    TRANS_STMT_ROLLBACK: 'ROLLBACK',
+    TRANS_STMT_SAVEPOINT: 'SAVEPOINT',
+    TRANS_STMT_RELEASE: 'RELEASE',
+    TRANS_STMT_ROLLBACK_TO: 'ROLLBACK',
+    TRANS_STMT_PREPARE: 'PREPARE',
+    TRANS_STMT_COMMIT_PREPARED: 'COMMIT',
+    TRANS_STMT_ROLLBACK_PREPARED: 'ROLLBACK',
+};
+
+/**
+ * The command node-postgres reports for a statement, which is the first word of the command tag postgres sends back
+ * (`CREATE` for `CREATE TABLE`, `SELECT` for `CREATE TABLE AS`, ...).
+ * Statements wrapped in CTEs are covered as well, since the parser puts the CTE inside the outer statement (`WITH ... UPDATE` is an `UpdateStmt`).
+ */
+export const getCommand = (stmt: Statement | undefined): string | undefined => {
+    if (!stmt) return undefined;
+
+    if ('TransactionStmt' in stmt) return transactionCommands[stmt.TransactionStmt.kind];
+    if ('VariableSetStmt' in stmt) return stmt.VariableSetStmt.kind === 'VAR_RESET' || stmt.VariableSetStmt.kind === 'VAR_RESET_ALL' ? 'RESET' : 'SET';
+    if ('GrantStmt' in stmt) return stmt.GrantStmt.is_grant ? 'GRANT' : 'REVOKE';
+    if ('GrantRoleStmt' in stmt) return stmt.GrantRoleStmt.is_grant ? 'GRANT' : 'REVOKE';
+    if ('FetchStmt' in stmt) return stmt.FetchStmt.ismove ? 'MOVE' : 'FETCH';
+    if ('VacuumStmt' in stmt) return stmt.VacuumStmt.is_vacuumcmd ? 'VACUUM' : 'ANALYZE';
+
+    const [nodeName = ''] = Object.keys(stmt);
+    // CreateStmt -> CREATE, AlterTableStmt -> ALTER, TruncateStmt -> TRUNCATE, CallStmt -> CALL, MergeStmt -> MERGE, ...
+    return commandOverrides[nodeName] ?? /^[A-Z][a-z]*/.exec(nodeName)?.[0].toUpperCase();
+};
+
+const explainableCommands = new Set(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+
+/**
+ * Whether a statement can be run with `EXPLAIN` in front of it.
+ */
+export const isExplainable = (statement: AnalyzedStatement | undefined) => explainableCommands.has(statement?.command ?? '');
+
+const cacheSize = 500;
+
+// huge statements (inlined bulk values, migration scripts) are rarely repeated, so they're not worth keeping around
+const maxCachedQueryLength = 16 * 1024;
+
+const cache = new LruCache<string, AnalyzedQuery>(cacheSize);
+
+// without any `;` the text can only hold a single statement, and for these the leading keyword is the command
+const fastPathCommand = /^\s*(select|insert|update|delete)\b/i;
+
+// `SELECT INTO` needs the parser to tell it apart from a plain `SELECT`
+const selectInto = /\binto\b/i;
+
+/**
+ * Splits a query into its statements and their commands, going through the parser only when needed and caching its results by SQL text.
+ */
+export const analyzeQuery = async (sqlQuery: string): Promise<AnalyzedQuery> => {
+    if (!sqlQuery.includes(';')) {
+        const command = fastPathCommand.exec(sqlQuery)?.[1]?.toUpperCase();
+        if (command && !(command === 'SELECT' && selectInto.test(sqlQuery))) return { statements: [{ command }] };
+    }
+
+    const cached = cache.get(sqlQuery);
+    if (cached) return cached;
+
+    const parsedSqlQuery = await parseQuery(sqlQuery);
+    const analyzedQuery: AnalyzedQuery = {
+        statements: parsedSqlQuery.stmts.map(({ stmt }) => ({ command: getCommand(stmt), stmt })),
+    };
+
+    if (sqlQuery.length <= maxCachedQueryLength) cache.set(sqlQuery, analyzedQuery);
+    return analyzedQuery;
+};
@@ -0,0 +1,97 @@
+import {
+    type ExecProtocolResult,
+    type PGliteInterface,
+    type QueryOptions,
+    type Results,
+    type SerializerOptions,
+    type messages,
+    parse,
+    protocol,
+} from '@electric-sql/pglite';
+
+export type ExecProtocol = (message: Uint8Array) => Promise<ExecProtocolResult['messages']>;
+
+/**
+ * PGlite's results of a statement along with the command tag postgres completed it with (`INSERT 0 3`, `MERGE 2`, `SELECT 5`),
+ * which PGlite itself only turns into `affectedRows` for a few commands.
+ */
+export type TaggedResults = Results & { commandTag?: string };
+
+// the same as node-postgres, the row count is the last number of the tag
+const commandTagPattern = /^([A-Za-z]+)(?: (\d+))?(?: (\d+))?/;
+
+/**
+ * The row count of a command tag, `null` for commands that don't report one (`CREATE TABLE`, `SET`).
+ */
+export const tagRowCount = (commandTag: string | undefined): number | null => {
+    const match = commandTagPattern.exec(commandTag ?? '');
+    const count = match?.[3] ?? match?.[2];
+    return count === undefined ? null : Number.parseInt(count, 10);
+};
+
+export const protocolRunner =
+    (connection: PGliteInterface, options: QueryOptions): ExecProtocol =>
+    async message =>
+        (await connection.execProtocol(message, { syncToFs: false, onNotice: options.onNotice })).messages;
+
+/**
+ * Serializes parameters for the types postgres described them with, like `PGlite.query()` does.
+ */
+export const serializeParams = (connection: PGliteInterface, paramTypes: number[], params: unknown[], options: QueryOptions) => {
+    const serializers = (connection as { serializers?: SerializerOptions }).serializers;
+    return params.map((param, index) => {
+        if (param === null || param === undefined) return null;
+        const typeId = paramTypes[index] ?? 0;
+        const serialize = options.serializers?.[typeId] ?? serializers?.[typeId];
+        return serialize ? serialize(param) : String(param);
+    });
+};
+
+/**
+ * Parses the messages of one or more statements into PGlite's results, each with its command tag.
+ */
+export const parseTaggedResults = (connection: PGliteInterface, backendMessages: ExecProtocolResult['messages'], options: QueryOptions): TaggedResults[] => {
+    // compared by name, since a worker's messages aren't instances of the message classes
+    const commandTags = backendMessages.flatMap(message => (message.name === 'commandComplete' ? [(message as messages.CommandCompleteMessage).text] : []));
+    const parsers = (connection as { parsers?: Parameters<typeof parse.parseResults>[1] }).parsers ?? {};
+    return parse.parseResults(backendMessages, parsers, options).map((results, index) => ({ ...results, commandTag: commandTags[index] }));
+};
+
+/**
+ * Runs a single statement through the extended protocol like `PGlite.query()` does, keeping its command tag.
+ */
+export const queryWithTag = (connection: PGliteInterface, text: string, params: unknown[] = [], options: QueryOptions = {}): Promise<TaggedResults> =>
+    connection.runExclusive(async () => {
+        const execProtocol = protocolRunner(connection, options);
+
+        let backendMessages: ExecProtocolResult['messages'];
+        try {
+            const parsed = await execProtocol(protocol.serialize.parse({ text, types: options.paramTypes }));
+            const paramTypes = parse.parseDescribeStatementResults(await execProtocol(protocol.serialize.describe({ type: 'S' })));
+            backendMessages = [
+                ...parsed,
+                ...(await execProtocol(protocol.serialize.bind({ values: serializeParams(connection, paramTypes, params, options) }))),
+                ...(await execProtocol(protocol.serialize.describe({ type: 'P' }))),
+                ...(await execProtocol(protocol.serialize.execute({}))),
+            ];
+        } finally {
+            await connection.execProtocol(protocol.serialize.sync());
+        }
+
+        return parseTaggedResults(connection, backendMessages, options)[0] as TaggedResults;
+    });
+
+/**
+ * Runs one or more statements through the simple protocol like `PGlite.exec()` does, keeping their command tags.
+ */
+export const execWithTags = (connection: PGliteInterface, text: string, options: QueryOptions = {}): Promise<TaggedResults[]> =>
+    connection.runExclusive(async () => {
+        let backendMessages: ExecProtocolResult['messages'];
+        try {
+            backendMessages = await protocolRunner(connection, options)(protocol.serialize.query(text));
+        } finally {
+            await connection.execProtocol(protocol.serialize.sync());
+        }
+
+        return parseTaggedResults(connection, backendMessages, options);
+    });
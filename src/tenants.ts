@@ -0,0 +1,113 @@
+import type { PGliteOptions } from '@electric-sql/pglite';
+
+export type TenantOptions = {
+    /**
+     * PGlite options of a tenant's database, usually with a data dir of its own (`tenant => ({ dataDir: \`./data/${tenant}\` })`).
+     * Tenants without a data dir live in memory and lose their data once they're closed.
+     */
+    pglite: (tenant: string) => PGliteOptions;
+    /**
+     * Tenant databases kept open at once, the least recently used idle one is closed when another one opens. Defaults to 10.
+     */
+    maxOpen?: number;
+    /**
+     * Where the tenant of a query comes from, e.g. an AsyncLocalStorage of the application's own.
+     * Defaults to the tenant of {@link PGliteDriverInstance.runWithTenant}. Queries without a tenant use the driver's own database.
+     */
+    tenant?: () => string | undefined;
+};
+
+/**
+ * The part of `AsyncLocalStorage` the current tenant is kept in.
+ */
+export type TenantStorage = {
+    run: <R>(tenant: string, callback: () => R) => R;
+    getStore: () => string | undefined;
+};
+
+type TenantPool = {
+    isIdle: () => boolean;
+    end: (cb: (error: unknown | null) => void) => void;
+};
+
+type Entry<P> = {
+    pool: P;
+    /**
+     * Operations between picking the pool and leasing its session, the pool looks idle to itself meanwhile.
+     */
+    users: number;
+};
+
+/**
+ * Opens a pool per tenant on first use and closes the least recently used idle ones beyond `maxOpen`.
+ * Pools in use stay open, so there may be more than `maxOpen` of them for a while.
+ */
+export class TenantPools<P extends TenantPool> {
+    // in order of last use, like LruCache
+    private readonly entries = new Map<string, Entry<P>>();
+    private readonly closing = new Map<string, Promise<void>>();
+
+    constructor(
+        private readonly createPool: (tenant: string) => P,
+        private readonly maxOpen: number,
+    ) {}
+
+    public get tenants(): string[] {
+        return [...this.entries.keys()];
+    }
+
+    public async use<T>(tenant: string, operation: (pool: P) => Promise<T>): Promise<T> {
+        const entry = await this.open(tenant);
+        try {
+            return await operation(entry.pool);
+        } finally {
+            entry.users--;
+            this.evict();
+        }
+    }
+
+    public async end(): Promise<void> {
+        await Promise.all([...this.tenants.map(tenant => this.close(tenant)), ...this.closing.values()]);
+    }
+
+    private async open(tenant: string): Promise<Entry<P>> {
+        for (;;) {
+            const entry = this.entries.get(tenant);
+            if (entry) {
+                this.entries.delete(tenant);
+                this.entries.set(tenant, entry);
+                entry.users++;
+                return entry;
+            }
+
+            const closing = this.closing.get(tenant);
+            if (!closing) break;
+            // the evicted instance has to let go of the data dir first
+            await closing.catch(() => {});
+        }
+
+        const entry = { pool: this.createPool(tenant), users: 1 };
+        this.entries.set(tenant, entry);
+        this.evict();
+        return entry;
+    }
+
+    private evict() {
+        for (const [tenant, entry] of this.entries) {
+            if (this.entries.size <= this.maxOpen) return;
+            if (!entry.users && entry.pool.isIdle()) this.close(tenant).catch(() => {});
+        }
+    }
+
+    private close(tenant: string): Promise<void> {
+        const entry = this.entries.get(tenant);
+        if (!entry) return Promise.resolve();
+
+        this.entries.delete(tenant);
+        const closing = new Promise<void>((resolve, reject) => entry.pool.end(error => (error ? reject(error) : resolve()))).finally(() =>
+            this.closing.delete(tenant),
+        );
+        this.closing.set(tenant, closing);
+        return closing;
+    }
+}
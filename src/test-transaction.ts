@@ -0,0 +1,66 @@
+import type { PGliteInterface } from '@electric-sql/pglite';
+import type { Statement } from './statements.js';
+
+const savepointName = (depth: number) => `pglite_typeorm_test_${depth}`;
+
+const statementSavepoint = 'pglite_typeorm_test_statement';
+
+/**
+ * Outer transaction wrapping a whole test, rolled back once the test ends.
+ * Transaction control issued by the application is turned into savepoints nested inside it, and statements
+ * running outside of an application transaction get a savepoint of their own, so a failing statement doesn't
+ * abort the outer transaction (the same way it wouldn't abort anything under autocommit).
+ */
+export class TestTransaction {
+    private depth = 0;
+
+    /**
+     * Whether the application opened a transaction (a savepoint inside the outer transaction).
+     */
+    public get inTransaction(): boolean {
+        return this.depth > 0;
+    }
+
+    /**
+     * SQL to run instead of a transaction control statement, `null` when the statement should be skipped and `undefined` when it runs as is.
+     */
+    public rewrite(stmt: Statement): string | null | undefined {
+        if ('TransactionStmt' in stmt) {
+            switch (stmt.TransactionStmt.kind) {
+                case 'TRANS_STMT_BEGIN':
+                case 'TRANS_STMT_START':
+                    this.depth += 1;
+                    return `SAVEPOINT ${savepointName(this.depth)}`;
+                case 'TRANS_STMT_COMMIT':
+                    if (this.depth === 0) return null;
+                    return `RELEASE SAVEPOINT ${savepointName(this.depth--)}`;
+                case 'TRANS_STMT_ROLLBACK': {
+                    if (this.depth === 0) return null;
+                    const name = savepointName(this.depth--);
+                    return `ROLLBACK TO SAVEPOINT ${name}; RELEASE SAVEPOINT ${name}`;
+                }
+                default:
+                    return undefined;
+            }
+        }
+
+        // the isolation level can only be set before the first query of the outer transaction
+        if ('VariableSetStmt' in stmt && stmt.VariableSetStmt.name === 'TRANSACTION') return null;
+
+        return undefined;
+    }
+
+    public async autocommit<T>(connection: PGliteInterface, execute: () => Promise<T>): Promise<T> {
+        if (this.depth > 0) return execute();
+
+        await connection.exec(`SAVEPOINT ${statementSavepoint}`);
+        try {
+            const result = await execute();
+            await connection.exec(`RELEASE SAVEPOINT ${statementSavepoint}`);
+            return result;
+        } catch (error) {
+            await connection.exec(`ROLLBACK TO SAVEPOINT ${statementSavepoint}; RELEASE SAVEPOINT ${statementSavepoint}`);
+            throw error;
+        }
+    }
+}
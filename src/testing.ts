@@ -0,0 +1,139 @@
+import type { PGliteOptions } from '@electric-sql/pglite';
+import { PGliteDriver, type PGliteDriverInstance } from './pglite-driver.js';
+import { removeFile, tempFilePath } from './runtime.js';
+import { PGliteSnapshot } from './snapshot.js';
+
+type TestHook = (fn: () => Promise<void>) => unknown;
+
+/**
+ * The part of TypeORM's `DataSource` the test helpers use.
+ */
+type TestDataSource = {
+    isInitialized: boolean;
+    initialize: () => Promise<unknown>;
+    destroy: () => Promise<void>;
+};
+
+type CreateDataSource<T extends TestDataSource> = (driver: PGliteDriverInstance) => T;
+
+export type TestTemplateOptions<T extends TestDataSource> = {
+    /**
+     * Creates the suite's DataSource for a driver, the same factory the tests pass to {@link useTestDataSource}.
+     */
+    createDataSource: CreateDataSource<T>;
+    /**
+     * Runs once the template's DataSource is initialized, e.g. `dataSource => dataSource.runMigrations()` and seeds.
+     */
+    setup?: (dataSource: T) => Promise<unknown>;
+    /**
+     * Options of the template's PGlite instance. The clones don't inherit them, pass them to {@link createTestDataSource} or {@link useTestDataSource} too.
+     */
+    pglite?: PGliteOptions;
+    /**
+     * Where the template is written, a file in the temp dir by default.
+     */
+    path?: string;
+};
+
+/**
+ * Where workers find the template, environment variables set in the global setup reach the workers of vitest and jest alike.
+ */
+const templateVariable = 'PGLITE_TYPEORM_TEMPLATE';
+
+/**
+ * Wraps every test in a transaction that is rolled back once the test ends, so tests can share one migrated database
+ * and still stay isolated from each other. Works with any runner exposing `beforeEach`/`afterEach` (vitest, jest, mocha, ...).
+ *
+ * @example
+ * const driver = PGliteDriver();
+ * useTestTransactions(driver, { beforeEach, afterEach });
+ */
+export const useTestTransactions = (driver: PGliteDriverInstance, hooks: { beforeEach: TestHook; afterEach: TestHook }) => {
+    hooks.beforeEach(() => driver.startTestTransaction());
+    hooks.afterEach(() => driver.rollbackTestTransaction());
+};
+
+/**
+ * Prepares the database every test starts from, once for the whole run: initializes a DataSource, runs `setup` (migrations, seeds)
+ * and writes a snapshot of it for the workers to clone. Meant for the global setup of vitest or jest, resolves to the matching teardown.
+ *
+ * @example
+ * // vitest globalSetup
+ * export default () => prepareTestTemplate({ createDataSource, setup: dataSource => dataSource.runMigrations() });
+ */
+export const prepareTestTemplate = async <T extends TestDataSource>(options: TestTemplateOptions<T>): Promise<() => Promise<void>> => {
+    const driver = PGliteDriver(options.pglite);
+    const dataSource = options.createDataSource(driver);
+    await dataSource.initialize();
+
+    let snapshot: PGliteSnapshot;
+    try {
+        await options.setup?.(dataSource);
+        snapshot = await driver.snapshot();
+    } finally {
+        await dataSource.destroy();
+    }
+
+    const path = options.path ?? (await tempFilePath('pglite-typeorm-template', '.tar'));
+    await snapshot.toFile(path);
+    process.env[templateVariable] = path;
+
+    return async () => {
+        delete process.env[templateVariable];
+        await removeFile(path);
+    };
+};
+
+let template: { path: string; snapshot: Promise<PGliteSnapshot> } | undefined;
+
+// read once per worker, every clone loads it from memory
+const readTemplate = (): Promise<PGliteSnapshot> => {
+    const path = process.env[templateVariable];
+    if (!path) {
+        return Promise.reject(new Error('no test template was prepared, call prepareTestTemplate() in the global setup of the test runner'));
+    }
+
+    if (template?.path !== path) template = { path, snapshot: PGliteSnapshot.fromFile(path) };
+    return template.snapshot;
+};
+
+/**
+ * Initializes a DataSource on a clone of the template prepared by {@link prepareTestTemplate}, with the migrations and seeds already in place.
+ */
+export const createTestDataSource = async <T extends TestDataSource>(createDataSource: CreateDataSource<T>, pglite?: PGliteOptions): Promise<T> => {
+    const snapshot = await readTemplate();
+    const dataSource = createDataSource(PGliteDriver(snapshot.toPGliteOptions(pglite)));
+    await dataSource.initialize();
+    return dataSource;
+};
+
+/**
+ * Gives every test (with `beforeEach`/`afterEach`) or every spec file (with `beforeAll`/`afterAll`) a DataSource of its own
+ * on a clone of the template, and destroys it again afterwards. Returns the current one.
+ *
+ * @example
+ * const getDataSource = useTestDataSource(createDataSource, { beforeEach, afterEach });
+ */
+export const useTestDataSource = <T extends TestDataSource>(
+    createDataSource: CreateDataSource<T>,
+    hooks: { beforeEach: TestHook; afterEach: TestHook } | { beforeAll: TestHook; afterAll: TestHook },
+    pglite?: PGliteOptions,
+): (() => T) => {
+    let dataSource: T | undefined;
+
+    const [before, after] = 'beforeEach' in hooks ? [hooks.beforeEach, hooks.afterEach] : [hooks.beforeAll, hooks.afterAll];
+    before(async () => {
+        dataSource = await createTestDataSource(createDataSource, pglite);
+    });
+    after(async () => {
+        if (dataSource?.isInitialized) await dataSource.destroy();
+        dataSource = undefined;
+    });
+
+    return () => {
+        if (!dataSource) {
+            throw new Error('the test DataSource is only available while tests run');
+        }
+        return dataSource;
+    };
+};
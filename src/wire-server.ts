@@ -0,0 +1,173 @@
+import { type Server, type Socket, createServer } from 'node:net';
+import type { PGliteInterface } from '@electric-sql/pglite';
+import type { Release } from './lease-queue.js';
+
+/**
+ * Where the server listens, a TCP port (`0` picks a free one) or a Unix socket path.
+ */
+export type WireServerOptions = { port?: number; host?: string } | { path: string };
+
+/**
+ * Like `net.Server.address()`, the bound address and port or the socket path.
+ */
+export type ServerAddress = { address: string; family: string; port: number } | string | null;
+
+type Session = () => Promise<[PGliteInterface, Release]>;
+
+const sslRequestCode = 80877103;
+const gssEncRequestCode = 80877104;
+const cancelRequestCode = 80877102;
+
+const terminateMessage = 0x58; // X
+const readyForQueryMessage = 0x5a; // Z
+const idleStatus = 0x49; // I
+
+const syncMessage = new Uint8Array([0x53, 0, 0, 0, 4]);
+
+// status byte of the last ReadyForQuery in a response, undefined while the client is in the middle of something (startup, an unsynced extended query)
+const readyStatus = (response: Uint8Array): number | undefined => {
+    const view = new DataView(response.buffer, response.byteOffset, response.byteLength);
+    let status: number | undefined;
+    for (let offset = 0; offset + 5 <= response.length; offset += 1 + view.getInt32(offset + 1)) {
+        if (response[offset] === readyForQueryMessage) status = response[offset + 5];
+    }
+    return status;
+};
+
+/**
+ * A socket client, sharing the PGlite session with everyone else.
+ * It holds the pool's lease from its first message until postgres reports it idle again, so a transaction opened over the socket
+ * keeps the session just like a leased client does, while separate statements interleave with the application's queries.
+ */
+class WireConnection {
+    private pending = Buffer.alloc(0);
+    private started = false;
+    private lease: [PGliteInterface, Release] | undefined;
+    private processing = Promise.resolve();
+
+    constructor(
+        private readonly socket: Socket,
+        private readonly session: Session,
+    ) {
+        socket.on('data', data => this.receive(data));
+        socket.on('error', () => socket.destroy());
+        socket.on('close', () => this.enqueue(() => this.releaseSession()));
+    }
+
+    private receive(data: Buffer) {
+        this.pending = Buffer.concat([this.pending, data]);
+
+        const messages: Buffer[] = [];
+        for (;;) {
+            // only the messages before startup come without a type byte
+            const headerLength = this.started ? 1 : 0;
+            if (this.pending.length < headerLength + 4) break;
+
+            const length = headerLength + this.pending.readInt32BE(headerLength);
+            if (this.pending.length < length) break;
+
+            const message = this.pending.subarray(0, length);
+            this.pending = this.pending.subarray(length);
+            if (!this.started) {
+                const code = message.readInt32BE(4);
+                this.started = code !== sslRequestCode && code !== gssEncRequestCode;
+            }
+            messages.push(message);
+        }
+
+        if (messages.length) this.enqueue(() => this.handle(messages));
+    }
+
+    private enqueue(task: () => Promise<void>) {
+        this.processing = this.processing.then(task).catch(() => {
+            this.socket.destroy();
+        });
+    }
+
+    private async handle(messages: Buffer[]) {
+        const forward: Buffer[] = [];
+        for (const message of messages) {
+            const code = message.length >= 8 && message[0] === 0 ? message.readInt32BE(4) : undefined;
+
+            if (code === sslRequestCode || code === gssEncRequestCode) {
+                // no encryption, the client goes on unencrypted
+                this.socket.write('N');
+            } else if (code === cancelRequestCode || message[0] === terminateMessage) {
+                await this.forward(forward.splice(0));
+                this.socket.end();
+                return;
+            } else {
+                forward.push(message);
+            }
+        }
+
+        await this.forward(forward);
+    }
+
+    private async forward(messages: Buffer[]) {
+        if (!messages.length || this.socket.destroyed) return;
+
+        this.lease ??= await this.session();
+        const response = await this.lease[0].execProtocolRaw(Buffer.concat(messages));
+        if (!this.socket.destroyed) this.socket.write(response);
+
+        if (readyStatus(response) === idleStatus) this.releaseLease();
+    }
+
+    // a client that went away in the middle of a transaction gets it rolled back, like postgres does on disconnect
+    private async releaseSession() {
+        if (!this.lease) return;
+
+        try {
+            const [connection] = this.lease;
+            const status = readyStatus(await connection.execProtocolRaw(syncMessage));
+            if (status !== idleStatus) await connection.exec('ROLLBACK');
+        } finally {
+            this.releaseLease();
+        }
+    }
+
+    private releaseLease() {
+        const release = this.lease?.[1];
+        this.lease = undefined;
+        release?.();
+    }
+}
+
+/**
+ * Serves the PGlite session over the postgres wire protocol, for psql, GUI clients or other processes.
+ */
+export class WireServer {
+    private readonly server: Server;
+    private readonly sockets = new Set<Socket>();
+
+    constructor(session: Session) {
+        this.server = createServer(socket => {
+            this.sockets.add(socket);
+            socket.on('close', () => this.sockets.delete(socket));
+            new WireConnection(socket, session);
+        });
+    }
+
+    public listen(options: WireServerOptions): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            const onListening = () => {
+                this.server.off('error', reject);
+                resolve();
+            };
+
+            if ('path' in options) this.server.listen(options.path, onListening);
+            else this.server.listen(options.port ?? 5432, options.host ?? '127.0.0.1', onListening);
+        });
+    }
+
+    public address(): ServerAddress {
+        return this.server.address();
+    }
+
+    public close(): Promise<void> {
+        for (const socket of this.sockets) socket.destroy();
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
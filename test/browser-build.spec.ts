@@ -0,0 +1,68 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { build } from 'esbuild';
+import { DataSource } from 'typeorm';
+import { describe, expect, it } from 'vitest';
+
+// the browser build of the package, `tshy` (run by `npm install`) builds it, the tests are skipped without it
+const browserBuild = '../dist/browser/index.js';
+const isBuilt = existsSync(new URL(browserBuild, import.meta.url));
+
+// browsers can't fetch PGlite's files next to its module, they're passed in like a worker would bundle them
+const pgliteFiles = async () => {
+    const directory = dirname(createRequire(import.meta.url).resolve('@electric-sql/pglite'));
+    const resolve = (file: string) => join(directory, file);
+    return {
+        wasmModule: await WebAssembly.compile(await readFile(resolve('pglite.wasm'))),
+        fsBundle: new Blob([await readFile(resolve('pglite.data'))]),
+    };
+};
+
+describe.skipIf(!isBuilt)('Browser build', { timeout: 60_000 }, () => {
+    it('should bundle for browsers without node modules', async () => {
+        const result = await build({
+            stdin: { contents: "export { PGliteDriver } from 'pglite-typeorm';", resolveDir: process.cwd() },
+            bundle: true,
+            write: false,
+            metafile: true,
+            platform: 'browser',
+            format: 'esm',
+            external: ['@electric-sql/pglite', 'libpg-query'],
+            logLevel: 'silent',
+        });
+
+        const inputs = Object.keys(result.metafile.inputs);
+        expect(inputs).toContain('dist/browser/pglite-driver.js');
+        expect(inputs.filter(input => input.startsWith('node:'))).toEqual([]);
+    });
+
+    it('should leave out the test templates, which workers find in the environment', async () => {
+        const browserExports = await import(browserBuild);
+        expect(browserExports).toHaveProperty('useTestTransactions');
+        expect(browserExports).not.toHaveProperty('prepareTestTemplate');
+        expect(browserExports).not.toHaveProperty('useTestDataSource');
+    });
+
+    it('should run in a browser environment with an idb:// data dir', async () => {
+        expect(typeof window.document).toBe('object');
+        const { PGliteDriver } = (await import(browserBuild)) as typeof import('../src/index.js');
+
+        const pgliteOptions = { dataDir: 'idb://pglite-typeorm-browser-build', ...(await pgliteFiles()) };
+        const first = new DataSource({ type: 'postgres', driver: PGliteDriver(pgliteOptions), logging: false });
+        await first.initialize();
+        await first.query('CREATE TABLE item (id INT PRIMARY KEY, name TEXT)');
+        await first.query('INSERT INTO item VALUES ($1, $2)', [1, 'stored in indexeddb']);
+        await first.destroy();
+
+        const second = new DataSource({ type: 'postgres', driver: PGliteDriver(pgliteOptions), logging: false });
+        await second.initialize();
+        const rows = await second.query('SELECT name FROM item');
+        await second.destroy();
+
+        expect(rows).toEqual([{ name: 'stored in indexeddb' }]);
+    });
+});
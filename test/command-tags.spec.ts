@@ -0,0 +1,112 @@
+import { DataSource } from 'typeorm';
+import type { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PGliteDriver, type PGlitePool, type QueryResult } from '../src/pglite-driver.js';
+
+describe('Command tags and row counts', () => {
+    let dataSource: DataSource;
+    let pool: PGlitePool;
+
+    const run = async (sqlQuery: string, params?: unknown[]) => {
+        const result = (await pool.query(sqlQuery, params)) as QueryResult;
+        return [result.command, result.rowCount];
+    };
+
+    beforeEach(async () => {
+        dataSource = new DataSource({
+            type: 'postgres',
+            driver: PGliteDriver(),
+            synchronize: false,
+            logging: false,
+        });
+
+        await dataSource.initialize();
+        pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+    });
+
+    afterEach(async () => {
+        if (dataSource.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should report DML commands with their row counts', async () => {
+        expect(await run('CREATE TABLE stock (sku TEXT PRIMARY KEY, amount INT NOT NULL)')).toEqual(['CREATE', null]);
+        expect(await run(`INSERT INTO stock VALUES ('a', 1), ('b', 2), ('c', 3)`)).toEqual(['INSERT', 3]);
+        expect(await run('SELECT * FROM stock WHERE amount > $1', [1])).toEqual(['SELECT', 2]);
+        expect(await run('UPDATE stock SET amount = amount + 1 WHERE amount < 3')).toEqual(['UPDATE', 2]);
+        expect(await run(`WITH removed AS (DELETE FROM stock WHERE sku = 'a' RETURNING sku) UPDATE stock SET amount = 0 WHERE sku IN ('b', 'c')`)).toEqual([
+            'UPDATE',
+            2,
+        ]);
+        expect(await run("MERGE INTO stock USING (VALUES ('b'), ('c')) AS incoming(sku) ON stock.sku = incoming.sku WHEN MATCHED THEN DELETE")).toEqual([
+            'MERGE',
+            2,
+        ]);
+    });
+
+    it('should report commands for DDL and utility statements', async () => {
+        await pool.query('CREATE TABLE orders (id INT PRIMARY KEY); INSERT INTO orders VALUES (1), (2), (3)');
+
+        expect(await run('CREATE TABLE orders_copy AS SELECT * FROM orders')).toEqual(['SELECT', 3]);
+        expect(await run('SELECT * INTO orders_backup FROM orders WHERE id > $1', [1])).toEqual(['SELECT', 2]);
+        expect(await run('ALTER TABLE orders ADD COLUMN note TEXT')).toEqual(['ALTER', null]);
+        expect(await run('CREATE INDEX orders_note_idx ON orders (note)')).toEqual(['CREATE', null]);
+        expect(await run('TRUNCATE orders')).toEqual(['TRUNCATE', null]);
+        expect(await run('CREATE PROCEDURE noop() LANGUAGE sql AS $$ SELECT 1 $$')).toEqual(['CREATE', null]);
+        expect(await run('CALL noop()')).toEqual(['CALL', null]);
+        expect(await run('DROP TABLE orders_copy')).toEqual(['DROP', null]);
+        expect(await run('SET search_path TO public')).toEqual(['SET', null]);
+        expect(await run('SHOW search_path')).toEqual(['SHOW', null]);
+        expect(await run('BEGIN')).toEqual(['BEGIN', null]);
+        expect(await run('ROLLBACK')).toEqual(['ROLLBACK', null]);
+    });
+
+    it('should report per statement counts for multi statement queries', async () => {
+        const results = (await pool.query(`
+            CREATE TABLE tags (name TEXT);
+            INSERT INTO tags VALUES ('a'), ('b');
+            SELECT * FROM tags;
+            TRUNCATE tags;
+        `)) as QueryResult[];
+
+        expect(results.map(result => [result.command, result.rowCount])).toEqual([
+            ['CREATE', null],
+            ['INSERT', 2],
+            ['SELECT', 2],
+            ['TRUNCATE', null],
+        ]);
+    });
+
+    it('should take the row counts from the command tags of named and multi statement queries', async () => {
+        await pool.query('CREATE TABLE orders (id INT PRIMARY KEY); INSERT INTO orders VALUES (1), (2), (3)');
+
+        const merged = (await pool.query({
+            name: 'merge_orders',
+            text: 'MERGE INTO orders USING (SELECT $1::int AS id) AS incoming ON orders.id = incoming.id WHEN NOT MATCHED THEN INSERT VALUES (incoming.id)',
+            values: [4],
+        })) as QueryResult;
+        expect([merged.command, merged.rowCount]).toEqual(['MERGE', 1]);
+
+        const results = (await pool.query(
+            'BEGIN; DECLARE orders_cursor CURSOR FOR SELECT * FROM orders; MOVE FORWARD 3 IN orders_cursor; FETCH 5 FROM orders_cursor; COMMIT',
+        )) as QueryResult[];
+        expect(results.map(result => [result.command, result.rowCount])).toEqual([
+            ['BEGIN', null],
+            ['DECLARE', null],
+            ['MOVE', 3],
+            ['FETCH', 1],
+            ['COMMIT', null],
+        ]);
+    });
+
+    it('should give TypeORM the affected counts', async () => {
+        await pool.query('CREATE TABLE flags (id INT PRIMARY KEY, enabled BOOLEAN); INSERT INTO flags VALUES (1, false), (2, false), (3, true)');
+
+        const updated = await dataSource.createQueryBuilder().update('flags').set({ enabled: true }).where('enabled = false').execute();
+        const deleted = await dataSource.createQueryBuilder().delete().from('flags').where('id > 1').execute();
+
+        expect(updated.affected).toBe(2);
+        expect(deleted.affected).toBe(2);
+    });
+});
@@ -0,0 +1,143 @@
+import { Readable, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { from as copyFrom, to as copyTo } from 'pg-copy-streams';
+import { DataSource } from 'typeorm';
+import type { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type PGliteClient, PGliteDriver, type PGliteDriverInstance, type PGlitePool } from '../src/pglite-driver.js';
+
+const readAll = async (stream: Readable) => {
+    const chunks: Buffer[] = [];
+    await pipeline(
+        stream,
+        new Writable({
+            write(chunk, _encoding, callback) {
+                chunks.push(chunk);
+                callback();
+            },
+        }),
+    );
+    return Buffer.concat(chunks);
+};
+
+describe('COPY', () => {
+    let driver: PGliteDriverInstance;
+    let dataSource: DataSource;
+
+    beforeEach(async () => {
+        driver = PGliteDriver();
+        dataSource = new DataSource({ type: 'postgres', driver, logging: false });
+        await dataSource.initialize();
+        await dataSource.query('CREATE TABLE item (id INT PRIMARY KEY, name TEXT)');
+    });
+
+    afterEach(async () => {
+        await dataSource.destroy();
+    });
+
+    const connect = () =>
+        new Promise<PGliteClient>((resolve, reject) => {
+            const pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+            pool.connect((error, client) => (error || !client ? reject(error) : resolve(client)));
+        });
+
+    describe('driver API', () => {
+        it('should copy CSV in and out', async () => {
+            const rowCount = await driver.copyFrom('COPY item FROM STDIN WITH (FORMAT csv, HEADER)', 'id,name\n1,first\n2,"with, comma"\n');
+            expect(rowCount).toBe(2);
+
+            const data = await driver.copyTo('COPY (SELECT * FROM item ORDER BY id) TO STDOUT WITH (FORMAT csv)');
+            expect(await data.text()).toBe('1,first\n2,"with, comma"\n');
+        });
+
+        it('should copy the text format', async () => {
+            expect(await driver.copyFrom('COPY item (id, name) FROM stdin', '1\tfirst\n2\t\\N\n')).toBe(2);
+            expect(await (await driver.copyTo('COPY item TO stdout')).text()).toBe('1\tfirst\n2\t\\N\n');
+        });
+
+        it('should round trip the binary format', async () => {
+            await dataSource.query("INSERT INTO item VALUES (1, 'first'), (2, 'second')");
+            const data = await driver.copyTo('COPY item TO STDOUT WITH (FORMAT binary)');
+            // the signature every binary COPY starts with
+            expect(new Uint8Array(await data.slice(0, 11).arrayBuffer())).toEqual(
+                new Uint8Array([0x50, 0x47, 0x43, 0x4f, 0x50, 0x59, 0x0a, 0xff, 0x0d, 0x0a, 0x00]),
+            );
+
+            await dataSource.query('DELETE FROM item');
+            expect(await driver.copyFrom('COPY item FROM STDIN WITH (FORMAT binary)', new Uint8Array(await data.arrayBuffer()))).toBe(2);
+            expect(await dataSource.query('SELECT * FROM item ORDER BY id')).toEqual([
+                { id: 1, name: 'first' },
+                { id: 2, name: 'second' },
+            ]);
+        });
+
+        it('should report the failing row like postgres does', async () => {
+            await expect(driver.copyFrom('COPY item FROM STDIN WITH (FORMAT csv)', '1,first\nnot a number,second\n')).rejects.toMatchObject({ code: '22P02' });
+            expect(await dataSource.query('SELECT count(*)::int AS count FROM item')).toEqual([{ count: 0 }]);
+        });
+
+        it('should pass the blob of a query config', async () => {
+            const pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+            const result = await pool.query({ text: 'COPY item FROM STDIN WITH (FORMAT csv)', blob: new Blob(['1,first\n']) });
+            expect(result).toMatchObject({ command: 'COPY', rowCount: 1 });
+        });
+    });
+
+    describe('pg-copy-streams', () => {
+        it('should copy from a stream', async () => {
+            const client = await connect();
+            try {
+                const stream = client.query(copyFrom('COPY item FROM STDIN WITH (FORMAT csv)'));
+                await pipeline(Readable.from(['1,first\n2,', 'second\n', '3,third\n']), stream);
+                expect(stream.rowCount).toBe(3);
+            } finally {
+                client.release();
+            }
+
+            expect(await dataSource.query('SELECT name FROM item ORDER BY id')).toEqual([{ name: 'first' }, { name: 'second' }, { name: 'third' }]);
+        });
+
+        it('should copy to a stream', async () => {
+            await dataSource.query("INSERT INTO item VALUES (1, 'first'), (2, 'second')");
+
+            const client = await connect();
+            try {
+                const stream = client.query(copyTo('COPY item TO STDOUT'));
+                expect((await readAll(stream)).toString()).toBe('1\tfirst\n2\tsecond\n');
+                expect(stream.rowCount).toBe(2);
+            } finally {
+                client.release();
+            }
+        });
+
+        it('should copy the binary format from one table to another', async () => {
+            await dataSource.query("INSERT INTO item SELECT id, 'item ' || id FROM generate_series(1, 1000) AS id");
+            await dataSource.query('CREATE TABLE item_copy (LIKE item)');
+
+            const client = await connect();
+            try {
+                const data = await readAll(client.query(copyTo('COPY item TO STDOUT WITH (FORMAT binary)')));
+                await pipeline(Readable.from([data]), client.query(copyFrom('COPY item_copy FROM STDIN WITH (FORMAT binary)')));
+            } finally {
+                client.release();
+            }
+
+            expect(await dataSource.query('SELECT count(*)::int AS count, max(name) AS name FROM item_copy')).toEqual([{ count: 1000, name: 'item 999' }]);
+        });
+
+        it('should fail the copy of a destroyed stream', async () => {
+            const client = await connect();
+            try {
+                const stream = client.query(copyFrom('COPY item FROM STDIN'));
+                const failed = new Promise(resolve => stream.on('error', resolve));
+                stream.write('1\tfirst\n');
+                stream.destroy(new Error('gave up'));
+                await failed;
+
+                expect(await client.query('SELECT count(*)::int AS count FROM item')).toMatchObject({ rows: [{ count: 0 }] });
+            } finally {
+                client.release();
+            }
+        });
+    });
+});
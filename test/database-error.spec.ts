@@ -0,0 +1,80 @@
+import { DataSource, QueryFailedError } from 'typeorm';
+import type { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseError } from '../src/database-error.js';
+import { PGliteDriver, type PGlitePool } from '../src/pglite-driver.js';
+
+describe('PGlite DatabaseError mapping', () => {
+    let dataSource: DataSource;
+
+    beforeEach(async () => {
+        dataSource = new DataSource({
+            type: 'postgres',
+            driver: PGliteDriver(),
+            synchronize: false,
+            logging: false,
+        });
+
+        await dataSource.initialize();
+        await dataSource.query('CREATE TABLE accounts (id SERIAL PRIMARY KEY, email TEXT NOT NULL UNIQUE)');
+        await dataSource.query('INSERT INTO accounts (email) VALUES ($1)', ['taken@example.com']);
+    });
+
+    afterEach(async () => {
+        if (dataSource.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should expose pg error fields on QueryFailedError', async () => {
+        const error = await dataSource.query('INSERT INTO accounts (email) VALUES ($1)', ['taken@example.com']).catch(error => error);
+
+        expect(error).toBeInstanceOf(QueryFailedError);
+        expect(error.driverError).toBeInstanceOf(DatabaseError);
+        expect(error.code).toBe('23505');
+        expect(error.severity).toBe('ERROR');
+        expect(error.constraint).toBe('accounts_email_key');
+        expect(error.table).toBe('accounts');
+        expect(error.schema).toBe('public');
+        expect(error.detail).toBe('Key (email)=(taken@example.com) already exists.');
+        expect(error.routine).toBeDefined();
+    });
+
+    it('should keep the failing sql and parameters', async () => {
+        const pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+        const error = await pool.query('SELECT * FROM accounts WHERE id = $1 AND missing = $2', [1, 'x']).catch(error => error);
+
+        expect(error).toBeInstanceOf(DatabaseError);
+        expect(error.code).toBe('42703');
+        expect(error.position).toBeDefined();
+        expect(error.query).toBe('SELECT * FROM accounts WHERE id = $1 AND missing = $2');
+        expect(error.parameters).toEqual([1, 'x']);
+    });
+
+    it('should map errors from multi statement queries', async () => {
+        const error = await dataSource
+            .query(`
+                INSERT INTO accounts (email) VALUES ('fresh@example.com');
+                INSERT INTO accounts (email) VALUES (NULL);
+            `)
+            .catch(error => error);
+
+        expect(error.driverError).toBeInstanceOf(DatabaseError);
+        expect(error.code).toBe('23502');
+        expect(error.column).toBe('email');
+    });
+
+    it('should pass the mapped error to query callbacks', async () => {
+        const pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+        let callbackError: unknown;
+
+        await pool
+            .query('SELECT * FROM missing_table', [], error => {
+                callbackError = error;
+            })
+            .catch(() => {});
+
+        expect(callbackError).toBeInstanceOf(DatabaseError);
+        expect((callbackError as DatabaseError).code).toBe('42P01');
+    });
+});
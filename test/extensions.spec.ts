@@ -0,0 +1,121 @@
+import { PGlite } from '@electric-sql/pglite';
+import { DataSource, EntitySchema } from 'typeorm';
+import { afterEach, describe, expect, it } from 'vitest';
+import { PGliteDriver, type PGliteDriverOptions } from '../src/pglite-driver.js';
+
+const AccountSchema = new EntitySchema<{ id: string; email: string; tags: Record<string, string>; path: string }>({
+    name: 'Account',
+    tableName: 'account',
+    columns: {
+        id: { primary: true, type: 'uuid', generated: 'uuid' },
+        email: { type: 'citext', unique: true },
+        tags: { type: 'hstore', hstoreType: 'object' },
+        path: { type: 'ltree' },
+    },
+});
+
+describe('Extensions', { timeout: 30_000 }, () => {
+    let dataSource: DataSource | undefined;
+
+    const initialize = async (driverOptions: PGliteDriverOptions = {}, entities: EntitySchema[] = []) => {
+        const driver = PGliteDriver(undefined, driverOptions);
+        dataSource = new DataSource({ type: 'postgres', driver, entities, synchronize: entities.length > 0, logging: false });
+        await dataSource.initialize();
+        return { driver, dataSource };
+    };
+
+    const installedExtensions = async (dataSource: DataSource) =>
+        ((await dataSource.query('SELECT extname FROM pg_extension ORDER BY extname')) as { extname: string }[]).map(({ extname }) => extname);
+
+    afterEach(async () => {
+        if (dataSource?.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should load the extensions TypeORM creates for entity columns', async () => {
+        const { dataSource } = await initialize({}, [AccountSchema]);
+        expect(await installedExtensions(dataSource)).toEqual(['citext', 'hstore', 'ltree', 'plpgsql', 'uuid-ossp']);
+
+        const repository = dataSource.getRepository(AccountSchema);
+        const { id } = await repository.save({ email: 'Someone@Example.com', tags: { role: 'admin' }, path: 'root.users' });
+        expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+
+        expect(await repository.findOneBy({ email: 'someone@example.com' })).toEqual({
+            id,
+            email: 'Someone@Example.com',
+            tags: { role: 'admin' },
+            path: 'root.users',
+        });
+        expect(await dataSource.query("SELECT count(*)::int AS count FROM account WHERE path <@ 'root'")).toEqual([{ count: 1 }]);
+    });
+
+    it('should load an extension created inside a transaction, like in a migration', async () => {
+        const { dataSource } = await initialize();
+
+        await dataSource.transaction(async manager => {
+            await manager.query('CREATE TABLE word (value TEXT)');
+            await manager.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+            await manager.query("INSERT INTO word VALUES ('typeorm'), ('pglite')");
+        });
+
+        expect(await dataSource.query("SELECT value FROM word WHERE similarity(value, 'typorm') > 0.3")).toEqual([{ value: 'typeorm' }]);
+    });
+
+    it('should load the extensions an extension requires', async () => {
+        const { dataSource } = await initialize();
+
+        await dataSource.query('CREATE EXTENSION earthdistance CASCADE');
+        expect(await installedExtensions(dataSource)).toEqual(['cube', 'earthdistance', 'plpgsql']);
+        expect(await dataSource.query('SELECT round(earth_distance(ll_to_earth(0, 0), ll_to_earth(0, 1))) AS distance')).toEqual([{ distance: 111320 }]);
+    });
+
+    it('should name an extension PGlite does not ship', async () => {
+        const { dataSource } = await initialize();
+
+        await expect(dataSource.query('CREATE EXTENSION postgis')).rejects.toMatchObject({
+            message: 'extension "postgis" is not available in PGlite',
+            code: '0A000',
+            hint: expect.stringContaining('citext'),
+        });
+    });
+
+    it('should load the extensions of a restored snapshot', async () => {
+        const { driver, dataSource } = await initialize();
+        await dataSource.query("CREATE EXTENSION citext; CREATE TABLE tag (name citext); INSERT INTO tag VALUES ('Blue')");
+
+        await driver.restore(await driver.snapshot());
+        expect(await dataSource.query("SELECT name FROM tag WHERE name = 'BLUE'")).toEqual([{ name: 'Blue' }]);
+    });
+
+    it('should leave extensions the PGlite instance was created with alone', async () => {
+        const pglite = await PGlite.create({ extensions: { citext: (await import('@electric-sql/pglite/contrib/citext')).citext } });
+        const driver = PGliteDriver(pglite, { closeOnEnd: true });
+        dataSource = new DataSource({ type: 'postgres', driver, logging: false });
+        await dataSource.initialize();
+
+        await dataSource.query('CREATE EXTENSION citext');
+        expect(await dataSource.query("SELECT 'A'::citext = 'a'::citext AS equal")).toEqual([{ equal: true }]);
+    });
+
+    it('should tell where to import an extension a PGlite instance passed in lacks', async () => {
+        const driver = PGliteDriver(await PGlite.create(), { closeOnEnd: true });
+        dataSource = new DataSource({ type: 'postgres', driver, logging: false });
+        await dataSource.initialize();
+
+        await expect(dataSource.query('CREATE EXTENSION citext')).rejects.toMatchObject({
+            message: 'extension "citext" isn\'t loaded into the PGlite instance',
+            code: '0A000',
+            hint: expect.stringContaining('@electric-sql/pglite/contrib/citext'),
+        });
+    });
+
+    it('should not load extensions when turned off', async () => {
+        const { dataSource } = await initialize({ autoLoadExtensions: false });
+
+        await expect(dataSource.query('CREATE EXTENSION citext')).rejects.toMatchObject({
+            code: '0A000',
+            hint: expect.stringContaining('must first be installed'),
+        });
+    });
+});
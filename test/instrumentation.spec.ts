@@ -0,0 +1,113 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { DataSource } from 'typeorm';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { QueryEndEvent, QueryErrorEvent, QueryHooks, QueryStartEvent } from '../src/instrumentation.js';
+import { openTelemetryHooks } from '../src/opentelemetry.js';
+import { PGliteDriver } from '../src/pglite-driver.js';
+
+describe('Query instrumentation', () => {
+    let dataSource: DataSource;
+
+    const initialize = async (hooks: QueryHooks) => {
+        dataSource = new DataSource({ type: 'postgres', driver: PGliteDriver(undefined, hooks), logging: false });
+        await dataSource.initialize();
+        await dataSource.query('CREATE TABLE item (id INT PRIMARY KEY)');
+    };
+
+    afterEach(async () => {
+        if (dataSource?.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should report the start and end of every query', async () => {
+        const events: Array<['start', QueryStartEvent] | ['end', QueryEndEvent]> = [];
+        await initialize({ onQueryStart: event => events.push(['start', event]), onQueryEnd: event => events.push(['end', event]) });
+        events.length = 0;
+
+        await dataSource.query('INSERT INTO item (id) VALUES ($1), ($2)', [1, 2]);
+        await dataSource.query('SELECT * FROM item; DELETE FROM item WHERE id = 1');
+
+        expect(events).toEqual([
+            ['start', { queryId: expect.any(Number), sql: 'INSERT INTO item (id) VALUES ($1), ($2)', params: [1, 2], command: 'INSERT' }],
+            [
+                'end',
+                {
+                    queryId: events[0]?.[1].queryId,
+                    sql: 'INSERT INTO item (id) VALUES ($1), ($2)',
+                    params: [1, 2],
+                    command: 'INSERT',
+                    rowCount: 2,
+                    duration: expect.any(Number),
+                },
+            ],
+            ['start', { queryId: expect.any(Number), sql: 'SELECT * FROM item; DELETE FROM item WHERE id = 1', params: undefined, command: 'DELETE' }],
+            ['end', expect.objectContaining({ sql: 'SELECT * FROM item; DELETE FROM item WHERE id = 1', command: 'DELETE', rowCount: 1 })],
+        ]);
+        expect((events[1]?.[1] as QueryEndEvent).duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report failing queries', async () => {
+        const started: QueryStartEvent[] = [];
+        const errors: QueryErrorEvent[] = [];
+        await initialize({ onQueryStart: event => started.push(event), onQueryError: event => errors.push(event) });
+        started.length = 0;
+
+        await expect(dataSource.query('SELECT * FROM missing')).rejects.toThrow();
+        await expect(dataSource.query('SELEC 1')).rejects.toThrow();
+
+        expect(started.map(event => event.command)).toEqual(['SELECT', undefined]);
+        expect(errors).toEqual([
+            expect.objectContaining({
+                queryId: started[0]?.queryId,
+                sql: 'SELECT * FROM missing',
+                command: 'SELECT',
+                error: expect.objectContaining({ code: '42P01' }),
+            }),
+            expect.objectContaining({ queryId: started[1]?.queryId, sql: 'SELEC 1', command: undefined, error: expect.any(Error) }),
+        ]);
+    });
+
+    it('should keep running queries when a hook throws', async () => {
+        await initialize({
+            onQueryStart: () => {
+                throw new Error('broken hook');
+            },
+        });
+
+        expect(await dataSource.query('SELECT 1 AS ok')).toEqual([{ ok: 1 }]);
+    });
+
+    it('should emit OpenTelemetry spans through the injected tracer', async () => {
+        const exporter = new InMemorySpanExporter();
+        const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+        await initialize(openTelemetryHooks(provider.getTracer('pglite-typeorm'), { captureParameters: true }));
+        exporter.reset();
+
+        await dataSource.query('INSERT INTO item (id) VALUES ($1)', [1]);
+        await dataSource.query('SELECT * FROM item');
+        await expect(dataSource.query('INSERT INTO item (id) VALUES (1)')).rejects.toThrow();
+
+        const [insert, select, failed] = exporter.getFinishedSpans();
+        expect(exporter.getFinishedSpans()).toHaveLength(3);
+
+        expect(insert?.name).toBe('INSERT');
+        expect(insert?.kind).toBe(SpanKind.CLIENT);
+        expect(insert?.attributes).toEqual({
+            'db.system.name': 'postgresql',
+            'db.query.text': 'INSERT INTO item (id) VALUES ($1)',
+            'db.operation.name': 'INSERT',
+            'db.query.parameter.0': '1',
+        });
+
+        expect(select?.attributes).toMatchObject({ 'db.operation.name': 'SELECT', 'db.response.returned_rows': 1 });
+        expect(select?.status.code).toBe(SpanStatusCode.UNSET);
+
+        expect(failed?.status).toEqual({ code: SpanStatusCode.ERROR, message: expect.stringContaining('duplicate key') });
+        expect(failed?.attributes).toMatchObject({ 'db.response.status_code': '23505', 'error.type': '23505' });
+        expect(failed?.events.map(event => event.name)).toEqual(['exception']);
+
+        await provider.shutdown();
+    });
+});
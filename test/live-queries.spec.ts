@@ -0,0 +1,177 @@
+import { DataSource, EntitySchema } from 'typeorm';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { type LiveQueryUpdate, liveFind, liveQuery } from '../src/live-queries.js';
+import { PGliteDriver, type PGliteDriverInstance } from '../src/pglite-driver.js';
+
+type Task = { id: number; title: string; done: boolean; createdAt: Date; list?: List };
+type List = { id: number; name: string; tasks?: Task[] };
+
+const TaskSchema = new EntitySchema<Task>({
+    name: 'Task',
+    tableName: 'task',
+    columns: {
+        id: { primary: true, type: 'int', generated: true },
+        title: { type: 'text' },
+        done: { type: 'boolean', default: false },
+        createdAt: { type: 'timestamp', name: 'created_at', default: () => "'2024-01-02 03:04:05'" },
+    },
+    relations: {
+        list: { type: 'many-to-one', target: 'List', inverseSide: 'tasks', nullable: true },
+    },
+});
+
+const ListSchema = new EntitySchema<List>({
+    name: 'List',
+    tableName: 'list',
+    columns: {
+        id: { primary: true, type: 'int', generated: true },
+        name: { type: 'text' },
+    },
+    relations: {
+        tasks: { type: 'one-to-many', target: 'Task', inverseSide: 'list' },
+    },
+});
+
+describe('Live queries', { timeout: 30_000 }, () => {
+    let dataSource: DataSource;
+    let driver: PGliteDriverInstance;
+
+    const initialize = async () => {
+        driver = PGliteDriver();
+        dataSource = new DataSource({ type: 'postgres', driver, entities: [TaskSchema, ListSchema], synchronize: true, logging: false });
+        await dataSource.initialize();
+        return dataSource;
+    };
+
+    // collects the updates of a live query
+    const collect = <T>() => {
+        const updates: LiveQueryUpdate<T>[] = [];
+        return { updates, callback: (update: LiveQueryUpdate<T>) => updates.push(update), last: () => updates.at(-1) };
+    };
+
+    afterEach(async () => {
+        if (dataSource?.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should emit hydrated entities whenever the table changes', async () => {
+        const dataSource = await initialize();
+        const tasks = dataSource.getRepository(TaskSchema);
+        await tasks.save({ title: 'write docs' });
+
+        const { updates, callback, last } = collect<Task>();
+        const subscription = await liveQuery(tasks.createQueryBuilder('task').where('task.done = :done', { done: false }).orderBy('task.id'), callback);
+
+        expect(updates).toHaveLength(1);
+        expect(last()?.entities).toEqual([{ id: 1, title: 'write docs', done: false, createdAt: new Date(2024, 0, 2, 3, 4, 5) }]);
+        expect(last()?.changes).toBeUndefined();
+
+        await tasks.save({ title: 'ship it' });
+        await vi.waitFor(() => expect(last()?.entities.map(({ title }) => title)).toEqual(['write docs', 'ship it']));
+
+        await tasks.update({ id: 1 }, { done: true });
+        await vi.waitFor(() => expect(last()?.entities.map(({ title }) => title)).toEqual(['ship it']));
+
+        await subscription.unsubscribe();
+        const count = updates.length;
+        await tasks.save({ title: 'unseen' });
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(updates).toHaveLength(count);
+    });
+
+    it('should subscribe to find options with relations', async () => {
+        const dataSource = await initialize();
+        const list = await dataSource.getRepository(ListSchema).save({ name: 'chores' });
+        await dataSource.getRepository(TaskSchema).save([
+            { title: 'dishes', list },
+            { title: 'laundry', list },
+        ]);
+
+        const { callback, last } = collect<List>();
+        const subscription = await liveFind(
+            dataSource.getRepository(ListSchema),
+            { relations: { tasks: true }, order: { id: 'ASC', tasks: { id: 'ASC' } } },
+            callback,
+        );
+        expect(last()?.entities).toMatchObject([{ name: 'chores', tasks: [{ title: 'dishes' }, { title: 'laundry' }] }]);
+
+        await dataSource.getRepository(TaskSchema).delete({ title: 'dishes' });
+        await vi.waitFor(() => expect(last()?.entities).toMatchObject([{ name: 'chores', tasks: [{ title: 'laundry' }] }]));
+        await subscription.unsubscribe();
+    });
+
+    it('should report incremental changes', async () => {
+        const dataSource = await initialize();
+        const tasks = dataSource.getRepository(TaskSchema);
+        await tasks.save([{ title: 'first' }, { title: 'second' }]);
+
+        const { callback, last } = collect<Task>();
+        const subscription = await liveFind(tasks, { order: { id: 'ASC' } }, callback, { incremental: true });
+        expect(last()?.changes?.inserted.map(({ title }) => title)).toEqual(['first', 'second']);
+
+        await dataSource.transaction(async manager => {
+            await manager.update(TaskSchema, { id: 1 }, { done: true });
+            await manager.delete(TaskSchema, { id: 2 });
+            await manager.save(TaskSchema, { title: 'third' });
+        });
+
+        await vi.waitFor(() => expect(last()?.entities.map(({ title }) => title)).toEqual(['first', 'third']));
+        const changes = last()?.changes;
+        expect(changes?.inserted).toMatchObject([{ id: 3, title: 'third' }]);
+        expect(changes?.updated).toMatchObject([{ id: 1, title: 'first', done: true }]);
+        expect(changes?.deleted).toMatchObject([{ id: 2, title: 'second' }]);
+        await subscription.unsubscribe();
+    });
+
+    it('should reject incremental queries with joined to-many relations', async () => {
+        const dataSource = await initialize();
+
+        await expect(liveFind(dataSource.getRepository(ListSchema), { relations: { tasks: true } }, () => {}, { incremental: true })).rejects.toThrow(
+            'incremental live queries need one row per entity, which joined to-many relations break',
+        );
+    });
+
+    it('should reject joined entities paged with take or skip', async () => {
+        const dataSource = await initialize();
+        const paged = dataSource.getRepository(TaskSchema).createQueryBuilder('task').leftJoinAndSelect('task.list', 'list').take(10);
+
+        await expect(liveQuery(paged, () => {})).rejects.toThrow("live queries can't page joined entities with take or skip");
+        await expect(liveFind(dataSource.getRepository(TaskSchema), { relations: { list: true }, skip: 1 }, () => {})).rejects.toThrow(
+            "live queries can't page joined entities with take or skip",
+        );
+    });
+
+    it('should take turns with the transactions of the application', async () => {
+        const dataSource = await initialize();
+        const tasks = dataSource.getRepository(TaskSchema);
+        const { callback, last } = collect<Task>();
+        const subscription = await liveQuery(tasks.createQueryBuilder('task'), callback);
+
+        const queryRunner = dataSource.createQueryRunner();
+        await queryRunner.startTransaction();
+        await queryRunner.manager.save(TaskSchema, { title: 'uncommitted' });
+        const refreshed = subscription.refresh();
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(last()?.entities).toEqual([]);
+
+        await queryRunner.rollbackTransaction();
+        await queryRunner.release();
+        await refreshed;
+        expect(last()?.entities).toEqual([]);
+        expect(await tasks.count()).toBe(0);
+        await subscription.unsubscribe();
+    });
+
+    it('should not run inside a test transaction', async () => {
+        const dataSource = await initialize();
+        await driver.startTestTransaction();
+        try {
+            await expect(liveQuery(dataSource.getRepository(TaskSchema).createQueryBuilder('task'), () => {})).rejects.toThrow(
+                "live queries see committed changes only, they can't run inside a test transaction",
+            );
+        } finally {
+            await driver.rollbackTestTransaction();
+        }
+    });
+});
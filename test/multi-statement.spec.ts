@@ -0,0 +1,66 @@
+import { DataSource } from 'typeorm';
+import type { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver.js';
+import { afterEach, describe, expect, it } from 'vitest';
+import { PGliteDriver, type PGliteDriverOptions, type PGlitePool, type QueryResult } from '../src/pglite-driver.js';
+
+const multiQuery = `
+    CREATE TABLE items (id SERIAL PRIMARY KEY, name TEXT NOT NULL);
+    INSERT INTO items (name) VALUES ('first'), ('second');
+    UPDATE items SET name = upper(name) WHERE name = 'first';
+    SELECT name FROM items ORDER BY id;
+`;
+
+describe('Multi statement query results', () => {
+    let dataSource: DataSource;
+
+    const initialize = async (driverOptions?: PGliteDriverOptions) => {
+        dataSource = new DataSource({
+            type: 'postgres',
+            driver: PGliteDriver(undefined, driverOptions),
+            synchronize: false,
+            logging: false,
+        });
+
+        await dataSource.initialize();
+        return (dataSource.driver as PostgresDriver).master as PGlitePool;
+    };
+
+    afterEach(async () => {
+        if (dataSource.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should return one result per statement by default', async () => {
+        const pool = await initialize();
+        const results = (await pool.query(multiQuery)) as QueryResult[];
+
+        expect(Array.isArray(results)).toBe(true);
+        expect(results.map(result => result.command)).toEqual(['CREATE', 'INSERT', 'UPDATE', 'SELECT']);
+        expect(results.map(result => result.rowCount)).toEqual([null, 2, 1, 2]);
+        expect(results[3]?.rows).toEqual([{ name: 'FIRST' }, { name: 'second' }]);
+    });
+
+    it('should pass all results to the callback', async () => {
+        const pool = await initialize();
+        let callbackResults: unknown;
+
+        await pool.query(multiQuery, [], (_error, results) => {
+            callbackResults = results;
+        });
+
+        expect(callbackResults).toHaveLength(4);
+    });
+
+    it('should return only the last result when configured', async () => {
+        const pool = await initialize({ multiStatementResult: 'last' });
+        const result = (await pool.query(multiQuery)) as QueryResult;
+
+        expect(Array.isArray(result)).toBe(false);
+        expect(result.command).toBe('SELECT');
+        expect(result.rows).toEqual([{ name: 'FIRST' }, { name: 'second' }]);
+
+        const rows = await dataSource.query(`INSERT INTO items (name) VALUES ('third'); SELECT count(*)::int AS total FROM items;`);
+        expect(rows).toEqual([{ total: 3 }]);
+    });
+});
@@ -0,0 +1,108 @@
+import { DataSource } from 'typeorm';
+import type { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type PGliteClient, PGliteDriver, type PGlitePool } from '../src/pglite-driver.js';
+
+type NotifyingClient = PGliteClient & {
+    on: (event: 'notification', listener: (notification: { channel: string; payload: string; processId: number }) => void) => void;
+    removeAllListeners: (event: 'notification') => void;
+};
+
+const connect = (pool: PGlitePool) =>
+    new Promise<[NotifyingClient, (error?: unknown) => void]>((resolve, reject) => {
+        pool.connect((error, client, done) => (error || !client ? reject(error) : resolve([client as NotifyingClient, done])));
+    });
+
+const listeningChannels = async (pool: PGlitePool) => {
+    const { rows } = (await pool.query('SELECT pg_listening_channels() AS channel ORDER BY 1')) as { rows: { channel: string }[] };
+    return rows.map(row => row.channel);
+};
+
+describe('LISTEN/NOTIFY', () => {
+    let dataSource: DataSource;
+    let pool: PGlitePool;
+
+    beforeEach(async () => {
+        dataSource = new DataSource({
+            type: 'postgres',
+            driver: PGliteDriver(),
+            synchronize: false,
+            logging: false,
+        });
+
+        await dataSource.initialize();
+        pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+    });
+
+    afterEach(async () => {
+        if (dataSource.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should emit notifications on the listening client', async () => {
+        const [client, release] = await connect(pool);
+        const notifications: unknown[] = [];
+        client.on('notification', notification => notifications.push(notification));
+
+        await client.query('LISTEN cache_invalidation');
+        await client.query(`NOTIFY cache_invalidation, 'users:1'`);
+        await client.query(`SELECT pg_notify('other_channel', 'ignored')`);
+        await client.query('BEGIN');
+        await client.query(`SELECT pg_notify('cache_invalidation', 'users:2')`);
+        await client.query('COMMIT');
+        release();
+
+        expect(notifications).toEqual([
+            { channel: 'cache_invalidation', payload: 'users:1', processId: expect.any(Number) },
+            { channel: 'cache_invalidation', payload: 'users:2', processId: expect.any(Number) },
+        ]);
+    });
+
+    it('should keep delivering to a released client until its listeners are removed', async () => {
+        const [worker, releaseWorker] = await connect(pool);
+        const payloads: string[] = [];
+        worker.on('notification', ({ payload }) => payloads.push(payload));
+        await worker.query('LISTEN jobs');
+        releaseWorker();
+
+        await dataSource.query(`NOTIFY jobs, 'first'`);
+        await dataSource.transaction(async manager => manager.query(`NOTIFY jobs, 'second'`));
+        expect(payloads).toEqual(['first', 'second']);
+
+        worker.removeAllListeners('notification');
+        expect(await listeningChannels(pool)).toEqual([]);
+    });
+
+    it('should drop the subscriptions of released clients without listeners', async () => {
+        const [first, releaseFirst] = await connect(pool);
+        await first.query('LISTEN jobs');
+        releaseFirst();
+
+        const [second, releaseSecond] = await connect(pool);
+        const payloads: string[] = [];
+        second.on('notification', ({ payload }) => payloads.push(payload));
+        await second.query(`NOTIFY jobs, 'not listening'`);
+        releaseSecond();
+
+        expect(payloads).toEqual([]);
+        expect(await listeningChannels(pool)).toEqual([]);
+    });
+
+    it('should not cut off other clients when one of them unlistens', async () => {
+        const [worker, releaseWorker] = await connect(pool);
+        const payloads: string[] = [];
+        worker.on('notification', ({ payload }) => payloads.push(payload));
+        await worker.query('LISTEN jobs');
+        releaseWorker();
+
+        const [other, releaseOther] = await connect(pool);
+        await other.query('LISTEN jobs');
+        await other.query('UNLISTEN *');
+        await other.query(`NOTIFY jobs, 'still delivered'`);
+        releaseOther();
+
+        expect(payloads).toEqual(['still delivered']);
+        expect(await listeningChannels(pool)).toEqual(['jobs']);
+    });
+});
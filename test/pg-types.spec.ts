@@ -0,0 +1,223 @@
+import { PGlite } from '@electric-sql/pglite';
+import { type TypeId, getTypeParser } from 'pg-types';
+import { type ColumnType, DataSource, EntitySchema } from 'typeorm';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { PostgresInterval, parseArray, prepareValue } from '../src/pg-types.js';
+import { PGliteDriver } from '../src/pglite-driver.js';
+
+type Everything = Record<string, unknown> & { id: number };
+
+// one column for every postgres column type TypeORM supports, plus a few array variants
+const columnTypes: Record<string, { type: ColumnType; array?: true; enum?: string[] }> = {
+    int2: { type: 'smallint' },
+    int4: { type: 'integer' },
+    int8: { type: 'bigint' },
+    numeric: { type: 'numeric' },
+    float4: { type: 'real' },
+    float8: { type: 'double precision' },
+    money: { type: 'money' },
+    char: { type: 'character' },
+    varchar: { type: 'character varying' },
+    text: { type: 'text' },
+    bytea: { type: 'bytea' },
+    bit: { type: 'bit' },
+    varbit: { type: 'bit varying' },
+    date: { type: 'date' },
+    time: { type: 'time' },
+    timetz: { type: 'time with time zone' },
+    timestamp: { type: 'timestamp' },
+    timestamptz: { type: 'timestamptz' },
+    interval: { type: 'interval' },
+    bool: { type: 'boolean' },
+    enum: { type: 'enum', enum: ['draft', 'published'] },
+    point: { type: 'point' },
+    line: { type: 'line' },
+    lseg: { type: 'lseg' },
+    box: { type: 'box' },
+    path: { type: 'path' },
+    polygon: { type: 'polygon' },
+    circle: { type: 'circle' },
+    cidr: { type: 'cidr' },
+    inet: { type: 'inet' },
+    macaddr: { type: 'macaddr' },
+    macaddr8: { type: 'macaddr8' },
+    tsvector: { type: 'tsvector' },
+    tsquery: { type: 'tsquery' },
+    uuid: { type: 'uuid' },
+    xml: { type: 'xml' },
+    json: { type: 'json' },
+    jsonb: { type: 'jsonb' },
+    int4range: { type: 'int4range' },
+    tstzrange: { type: 'tstzrange' },
+    int4Array: { type: 'integer', array: true },
+    int8Array: { type: 'bigint', array: true },
+    numericArray: { type: 'numeric', array: true },
+    textArray: { type: 'text', array: true },
+    boolArray: { type: 'boolean', array: true },
+    timestampArray: { type: 'timestamp', array: true },
+    dateArray: { type: 'date', array: true },
+    byteaArray: { type: 'bytea', array: true },
+    uuidArray: { type: 'uuid', array: true },
+    enumArray: { type: 'enum', enum: ['a', 'b'], array: true },
+};
+
+const EverythingSchema = new EntitySchema<Everything>({
+    name: 'Everything',
+    tableName: 'everything',
+    columns: {
+        id: { primary: true, type: 'int' },
+        ...Object.fromEntries(Object.entries(columnTypes).map(([name, column]) => [name, { ...column, nullable: true }])),
+        simpleArray: { type: 'simple-array', nullable: true },
+        simpleJson: { type: 'simple-json', nullable: true },
+    },
+});
+
+const values: Everything = {
+    id: 1,
+    int2: 12,
+    int4: 123456,
+    int8: '9007199254740993',
+    numeric: '12345678901234567890.123456789',
+    float4: 1.5,
+    float8: Math.PI,
+    money: '$12.34',
+    char: 'x',
+    varchar: 'varchar',
+    text: 'text with "quotes" and \\ backslashes',
+    bytea: Buffer.from([0, 1, 2, 254, 255]),
+    bit: '1',
+    varbit: '10101',
+    date: '2024-02-29',
+    time: '13:14:15.123456',
+    timetz: '13:14:15+02',
+    timestamp: new Date(2024, 0, 15, 10, 30, 45, 123),
+    timestamptz: new Date(Date.UTC(2024, 0, 15, 10, 30, 45, 123)),
+    interval: '1 year 2 mons 3 days 04:05:06.789',
+    bool: true,
+    enum: 'published',
+    point: '(1.5,2.5)',
+    line: '{1,-1,0}',
+    lseg: '[(0,0),(1,1)]',
+    box: '(1,1),(0,0)',
+    path: '((0,0),(1,1),(2,0))',
+    polygon: '((0,0),(1,1),(2,0))',
+    circle: '<(1,2),3>',
+    cidr: '192.168.100.128/25',
+    inet: '10.1.2.3',
+    macaddr: '08:00:2b:01:02:03',
+    macaddr8: '08:00:2b:01:02:03:04:05',
+    tsvector: `'a' 'fat' 'rat'`,
+    tsquery: `'fat' & 'rat'`,
+    uuid: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+    xml: '<a>b</a>',
+    json: { nested: { list: [1, 'two', null] } },
+    jsonb: { flag: false, count: 2 },
+    int4range: '[1,10)',
+    tstzrange: '["2024-01-01 00:00:00+00","2024-12-31 00:00:00+00")',
+    int4Array: [1, null, 3],
+    int8Array: ['1', '9007199254740993'],
+    numericArray: ['1.5', '2.25'],
+    textArray: ['a', 'b,c', 'd"e', 'NULL', null, ''],
+    boolArray: [true, false],
+    timestampArray: [new Date(2024, 5, 1, 12, 0, 0)],
+    dateArray: ['2024-01-01', '2024-12-31'],
+    byteaArray: [Buffer.from([1, 2]), Buffer.from([255])],
+    uuidArray: ['a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11'],
+    enumArray: ['a', 'b'],
+    simpleArray: ['x', 'y'],
+    simpleJson: { simple: true },
+};
+
+describe('node-postgres compatible type parsing', () => {
+    const pglite = new PGlite();
+    const dataSource = new DataSource({
+        type: 'postgres',
+        driver: PGliteDriver(pglite),
+        entities: [EverythingSchema],
+        synchronize: true,
+        logging: false,
+    });
+
+    beforeAll(async () => {
+        await dataSource.initialize();
+        await dataSource.getRepository(EverythingSchema).save(values);
+    });
+
+    afterAll(async () => {
+        await dataSource.destroy();
+        await pglite.close();
+    });
+
+    it('should parse every column type like node-postgres does', async () => {
+        const [row] = await dataSource.query('SELECT * FROM everything');
+
+        // the raw text postgres sends, parsed with node-postgres' own parsers
+        const { fields } = await pglite.query('SELECT * FROM everything LIMIT 0');
+        const rawRow = await pglite.query<Record<string, string>>('SELECT * FROM everything', [], {
+            parsers: Object.fromEntries(fields.map(field => [field.dataTypeID, (value: string) => value])),
+        });
+
+        for (const field of rawRow.fields) {
+            const rawValue = rawRow.rows[0]?.[field.name];
+            const expected = rawValue === null ? null : getTypeParser(field.dataTypeID as TypeId, 'text')(rawValue);
+            expect({ column: field.name, value: row[field.name] }).toEqual({ column: field.name, value: expected });
+        }
+    });
+
+    it('should round trip entities like node-postgres does', async () => {
+        const loaded = await dataSource.getRepository(EverythingSchema).findOneByOrFail({ id: 1 });
+
+        expect(loaded).toEqual({
+            ...values,
+            // node-postgres parses these into objects, numeric arrays become floats
+            point: { x: 1.5, y: 2.5 },
+            circle: { x: 1, y: 2, radius: 3 },
+            numericArray: [1.5, 2.25],
+            dateArray: [new Date(2024, 0, 1), new Date(2024, 11, 31)],
+            interval: expect.any(PostgresInterval),
+        });
+        expect((loaded.interval as PostgresInterval).toPostgres()).toBe('6.789 seconds 5 minutes 4 hours 3 days 2 months 1 years');
+        expect(typeof loaded.int8).toBe('string');
+        expect(Buffer.isBuffer(loaded.bytea)).toBe(true);
+    });
+
+    it('should encode parameters like node-postgres does', async () => {
+        const [row] = await dataSource.query(
+            `SELECT $1::timestamp = '2024-01-15 10:30:45.123' AS local_timestamp, $2::jsonb = '{"a": [1]}' AS json, $3::int[] AS ints, $4::bytea AS bytes, $5::text AS object`,
+            [new Date(2024, 0, 15, 10, 30, 45, 123), { a: [1] }, [1, 2], Buffer.from('hi'), { toPostgres: () => 'custom' }],
+        );
+
+        expect(row).toEqual({ local_timestamp: true, json: true, ints: [1, 2], bytes: Buffer.from('hi'), object: 'custom' });
+    });
+
+    it('should keep pglite parsing when opted out', async () => {
+        const pgliteDataSource = new DataSource({ type: 'postgres', driver: PGliteDriver(pglite, { typeParsing: 'pglite' }), logging: false });
+        await pgliteDataSource.initialize();
+        try {
+            const [row] = await pgliteDataSource.query(`SELECT 1::int8 AS int8, '\\x0102'::bytea AS bytes, '2024-01-01'::date AS date`);
+            expect(row).toEqual({ int8: 1, bytes: new Uint8Array([1, 2]), date: new Date('2024-01-01T00:00:00Z') });
+        } finally {
+            await pgliteDataSource.destroy();
+        }
+    });
+});
+
+describe('pg type helpers', () => {
+    it('should parse array literals', () => {
+        expect(parseArray('{1,NULL,"NULL","a\\"b",""}')).toEqual(['1', null, 'NULL', 'a"b', '']);
+        expect(parseArray('{{1,2},{3,4}}', Number)).toEqual([
+            [1, 2],
+            [3, 4],
+        ]);
+        expect(parseArray('[0:1]={a,b}')).toEqual(['a', 'b']);
+        expect(parseArray('{}')).toEqual([]);
+    });
+
+    it('should prepare values like node-postgres', () => {
+        expect(prepareValue(null)).toBeNull();
+        expect(prepareValue(12n)).toBe('12');
+        expect(prepareValue(['a', null, ['b"c']])).toBe('{"a",NULL,{"b\\"c"}}');
+        expect(prepareValue({ a: 1 })).toBe('{"a":1}');
+        expect(prepareValue(new Date(2024, 0, 1, 0, 0, 0))).toMatch(/^2024-01-01T00:00:00\.000[+-]\d{2}:\d{2}$/);
+    });
+});
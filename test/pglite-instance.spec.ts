@@ -0,0 +1,68 @@
+import { PGlite } from '@electric-sql/pglite';
+import { DataSource } from 'typeorm';
+import { describe, expect, it } from 'vitest';
+import { PGliteDriver } from '../src/pglite-driver.js';
+
+describe('PGliteDriver with an existing PGlite instance', () => {
+    it('should share the database with the instance owner and leave it open', async () => {
+        const pglite = await PGlite.create();
+        await pglite.exec(`CREATE TABLE seeded (id INT PRIMARY KEY, name TEXT, active BOOLEAN); INSERT INTO seeded VALUES (1, 'seed', false);`);
+
+        const dataSource = new DataSource({
+            type: 'postgres',
+            driver: PGliteDriver(pglite),
+            synchronize: false,
+            logging: false,
+        });
+        await dataSource.initialize();
+
+        expect(await dataSource.query('SELECT name FROM seeded')).toEqual([{ name: 'seed' }]);
+        await dataSource.query('INSERT INTO seeded VALUES ($1, $2, $3)', [2, 'typeorm', 1]);
+
+        await dataSource.destroy();
+
+        expect(pglite.closed).toBe(false);
+        const { rows } = await pglite.query('SELECT name, active FROM seeded ORDER BY id');
+        expect(rows).toEqual([
+            { name: 'seed', active: false },
+            { name: 'typeorm', active: true },
+        ]);
+
+        await pglite.close();
+    });
+
+    it('should close a passed instance when closeOnEnd is set', async () => {
+        const pglite = await PGlite.create();
+        const dataSource = new DataSource({
+            type: 'postgres',
+            driver: PGliteDriver(pglite, { closeOnEnd: true }),
+            synchronize: false,
+            logging: false,
+        });
+
+        await dataSource.initialize();
+        await dataSource.destroy();
+
+        expect(pglite.closed).toBe(true);
+    });
+
+    it('should create the instance lazily through a factory', async () => {
+        let created: PGlite | undefined;
+        const dataSource = new DataSource({
+            type: 'postgres',
+            driver: PGliteDriver(async () => {
+                created = await PGlite.create();
+                return created;
+            }),
+            synchronize: false,
+            logging: false,
+        });
+
+        expect(created).toBeUndefined();
+        await dataSource.initialize();
+        expect(await dataSource.query('SELECT 1 AS value')).toEqual([{ value: 1 }]);
+
+        await dataSource.destroy();
+        expect(created?.closed).toBe(true);
+    });
+});
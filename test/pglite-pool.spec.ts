@@ -0,0 +1,95 @@
+import { DataSource } from 'typeorm';
+import type { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type PGliteClient, PGliteDriver, type PGlitePool, type QueryResult } from '../src/pglite-driver.js';
+
+const connect = (pool: PGlitePool) =>
+    new Promise<[PGliteClient, (error?: unknown) => void]>((resolve, reject) => {
+        pool.connect((error, client, done) => (error || !client ? reject(error) : resolve([client, done])));
+    });
+
+describe('PGlite Pool Client Queue', () => {
+    let dataSource: DataSource;
+
+    beforeEach(async () => {
+        dataSource = new DataSource({
+            type: 'postgres',
+            driver: PGliteDriver(),
+            synchronize: false,
+            logging: false,
+        });
+
+        await dataSource.initialize();
+        await dataSource.query('CREATE TABLE counters (id SERIAL PRIMARY KEY, label TEXT NOT NULL)');
+    });
+
+    afterEach(async () => {
+        if (dataSource.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should hand out a client only after the previous one is released', async () => {
+        const pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+        const order: string[] = [];
+
+        const [first, releaseFirst] = await connect(pool);
+        const second = connect(pool).then(([client, release]) => {
+            order.push('second');
+            return [client, release] as const;
+        });
+
+        await new Promise(resolve => setTimeout(resolve, 20));
+        order.push('first');
+        await first.query('SELECT 1');
+        releaseFirst();
+
+        const [secondClient, releaseSecond] = await second;
+        await secondClient.query('SELECT 1');
+        releaseSecond();
+
+        expect(order).toEqual(['first', 'second']);
+    });
+
+    it('should reject queries on a released client', async () => {
+        const pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+        const [client, release] = await connect(pool);
+        release();
+
+        await expect(client.query('SELECT 1')).rejects.toThrow('client has already been released');
+    });
+
+    it('should queue pool level queries behind leased clients', async () => {
+        const pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+        const [client, release] = await connect(pool);
+
+        await client.query('BEGIN');
+        await client.query(`INSERT INTO counters (label) VALUES ('uncommitted')`);
+
+        const poolQuery = pool.query('SELECT count(*)::int AS total FROM counters');
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        await client.query('ROLLBACK');
+        release();
+
+        const { rows } = (await poolQuery) as QueryResult;
+        expect(rows[0].total).toBe(0);
+    });
+
+    it('should isolate concurrent transactions from each other', async () => {
+        await Promise.all(
+            Array.from({ length: 5 }, (_, index) =>
+                dataSource
+                    .transaction(async manager => {
+                        await manager.query('INSERT INTO counters (label) VALUES ($1)', [`tx-${index}`]);
+                        await new Promise(resolve => setTimeout(resolve, 5));
+                        if (index % 2 === 1) throw new Error('rollback');
+                    })
+                    .catch(() => {}),
+            ),
+        );
+
+        const rows = await dataSource.query('SELECT label FROM counters ORDER BY label');
+        expect(rows.map((row: { label: string }) => row.label)).toEqual(['tx-0', 'tx-2', 'tx-4']);
+    });
+});
@@ -0,0 +1,154 @@
+import { PGlite } from '@electric-sql/pglite';
+import { DataSource, QueryFailedError } from 'typeorm';
+import type { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PGliteDriver, type PGliteDriverInstance, type PGlitePool } from '../src/pglite-driver.js';
+
+// PGlite can't be interrupted while it sleeps, so this always completes past a shorter timeout
+const slowQuery = 'SELECT pg_sleep(0.5)';
+
+describe('Query cancellation', { timeout: 20_000 }, () => {
+    let pglite: PGlite;
+    let driver: PGliteDriverInstance;
+    let dataSource: DataSource;
+    let pool: PGlitePool;
+
+    const initialize = async (extra: Record<string, unknown> = {}) => {
+        driver = PGliteDriver(pglite);
+        dataSource = new DataSource({
+            type: 'postgres',
+            driver,
+            extra,
+            logging: false,
+        });
+
+        await dataSource.initialize();
+        pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+    };
+
+    beforeEach(async () => {
+        // straight through PGlite, so the schema isn't subject to the timeouts under test
+        pglite = new PGlite();
+        await pglite.exec('CREATE TABLE item (id INT PRIMARY KEY)');
+    });
+
+    afterEach(async () => {
+        if (dataSource?.isInitialized) {
+            await dataSource.destroy();
+        }
+        await pglite.close();
+    });
+
+    it('should cancel statements running past statement_timeout', async () => {
+        await initialize({ statement_timeout: 250 });
+        const error = await dataSource.query(slowQuery).catch(error => error);
+
+        expect(error).toBeInstanceOf(QueryFailedError);
+        expect(error.driverError).toMatchObject({ code: '57014', message: 'canceling statement due to statement timeout', query: slowQuery });
+        expect(await dataSource.query('SELECT 1 AS ok')).toEqual([{ ok: 1 }]);
+    });
+
+    it('should roll back statements completing past statement_timeout', async () => {
+        await initialize({ statement_timeout: 250 });
+
+        await expect(dataSource.query(`INSERT INTO item (id) SELECT 1 FROM (${slowQuery}) slow`)).rejects.toMatchObject({
+            driverError: { code: '57014' },
+        });
+
+        expect(await dataSource.query('SELECT count(*)::int AS total FROM item')).toEqual([{ total: 0 }]);
+    });
+
+    it('should not count the time spent waiting for the session towards statement_timeout', async () => {
+        await initialize({ statement_timeout: 250 });
+        const queryRunner = dataSource.createQueryRunner();
+        await queryRunner.connect();
+
+        const waiting = pool.query('INSERT INTO item (id) VALUES (1)');
+        await new Promise(resolve => setTimeout(resolve, 400));
+        await queryRunner.release();
+
+        await expect(waiting).resolves.toMatchObject({ rowCount: 1 });
+    });
+
+    it('should abort the transaction a canceled statement ran in', async () => {
+        await initialize({ statement_timeout: 250 });
+        const queryRunner = dataSource.createQueryRunner();
+        try {
+            await queryRunner.startTransaction();
+            await queryRunner.query('INSERT INTO item (id) VALUES (1)');
+
+            await expect(queryRunner.query(`INSERT INTO item (id) SELECT 1 + count(*) FROM (${slowQuery}) slow`)).rejects.toMatchObject({
+                driverError: { code: '57014' },
+            });
+            await expect(queryRunner.query('SELECT 1')).rejects.toMatchObject({ driverError: { code: '25P02' } });
+
+            await queryRunner.rollbackTransaction();
+        } finally {
+            await queryRunner.release();
+        }
+
+        expect(await dataSource.query('SELECT count(*)::int AS total FROM item')).toEqual([{ total: 0 }]);
+    });
+
+    it('should stop waiting for the session once query_timeout passes', async () => {
+        await initialize();
+        const queryRunner = dataSource.createQueryRunner();
+        try {
+            await queryRunner.startTransaction();
+            await queryRunner.query('INSERT INTO item (id) VALUES (1)');
+
+            // the query runner holds the session, so this waits until it's released
+            await expect(pool.query({ text: 'SELECT count(*) FROM item', query_timeout: 10 })).rejects.toMatchObject({
+                code: '57014',
+                message: 'canceling statement due to query timeout',
+            });
+
+            await queryRunner.commitTransaction();
+        } finally {
+            await queryRunner.release();
+        }
+
+        expect(await dataSource.query('SELECT count(*)::int AS total FROM item')).toEqual([{ total: 1 }]);
+    });
+
+    it('should not run statements canceled before they got to run', async () => {
+        await initialize();
+        await driver.startTestTransaction();
+
+        // aborts in the last step before the statement runs, once the query already got the session
+        const controller = new AbortController();
+        const exec = pglite.exec.bind(pglite);
+        vi.spyOn(pglite, 'exec').mockImplementation((sql, options) => {
+            if (sql === 'SAVEPOINT pglite_typeorm_test_statement') controller.abort();
+            return exec(sql, options);
+        });
+
+        // PREPARE can't be rolled back, so it mustn't run at all
+        await expect(pool.query({ text: 'PREPARE canceled AS SELECT 1', signal: controller.signal })).rejects.toMatchObject({ code: '57014' });
+        vi.restoreAllMocks();
+
+        expect(await dataSource.query("SELECT count(*)::int AS total FROM pg_prepared_statements WHERE name = 'canceled'")).toEqual([{ total: 0 }]);
+        await driver.rollbackTestTransaction();
+    });
+
+    it('should cancel queries when their signal aborts', async () => {
+        await initialize();
+        const queryRunner = dataSource.createQueryRunner();
+        await queryRunner.connect();
+
+        const controller = new AbortController();
+        const waiting = pool.query({ text: 'INSERT INTO item (id) VALUES (2)', signal: controller.signal });
+        controller.abort();
+        await queryRunner.release();
+
+        await expect(waiting).rejects.toMatchObject({ code: '57014', message: 'canceling statement due to user request' });
+        await expect(pool.query({ text: 'INSERT INTO item (id) VALUES (3)', signal: AbortSignal.abort() })).rejects.toMatchObject({ code: '57014' });
+
+        const callbackError = await new Promise(resolve => {
+            pool.query({ text: 'SELECT 1', signal: AbortSignal.abort() }, undefined, error => resolve(error)).catch(() => {});
+        });
+        expect(callbackError).toMatchObject({ code: '57014' });
+
+        expect(await dataSource.query('SELECT count(*)::int AS total FROM item')).toEqual([{ total: 0 }]);
+    });
+});
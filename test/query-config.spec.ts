@@ -0,0 +1,103 @@
+import { getTypeParser } from 'pg-types';
+import { DataSource } from 'typeorm';
+import type { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type PGliteClient, PGliteDriver, type PGlitePool, type QueryResult } from '../src/pglite-driver.js';
+
+const connect = (pool: PGlitePool) =>
+    new Promise<[PGliteClient, (error?: unknown) => void]>((resolve, reject) => {
+        pool.connect((error, client, done) => (error || !client ? reject(error) : resolve([client, done])));
+    });
+
+describe('Query config objects', () => {
+    let dataSource: DataSource;
+    let pool: PGlitePool;
+
+    beforeEach(async () => {
+        dataSource = new DataSource({
+            type: 'postgres',
+            driver: PGliteDriver(),
+            synchronize: false,
+            logging: false,
+        });
+
+        await dataSource.initialize();
+        pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+        await dataSource.query('CREATE TABLE accounts (id INT8 PRIMARY KEY, name TEXT NOT NULL UNIQUE, balance NUMERIC NOT NULL)');
+        await dataSource.query(`INSERT INTO accounts VALUES (1, 'alice', 10.5), (2, 'bob', 20)`);
+    });
+
+    afterEach(async () => {
+        if (dataSource.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should return rows as arrays in array row mode', async () => {
+        const result = (await pool.query({ text: 'SELECT id, name FROM accounts WHERE id > $1 ORDER BY id', values: [0], rowMode: 'array' })) as QueryResult;
+
+        expect(result.rows).toEqual([
+            ['1', 'alice'],
+            ['2', 'bob'],
+        ]);
+        expect(result.fields.map(field => field.name)).toEqual(['id', 'name']);
+        expect(result.rowCount).toBe(2);
+    });
+
+    it('should parse values with per query type overrides', async () => {
+        const types = { getTypeParser: (typeId: number) => (typeId === 20 ? BigInt : typeId === 1700 ? Number : getTypeParser(typeId, 'text')) };
+
+        const result = (await pool.query({ text: 'SELECT id, name, balance, true AS active FROM accounts ORDER BY id', types })) as QueryResult;
+        expect(result.rows).toEqual([
+            { id: 1n, name: 'alice', balance: 10.5, active: true },
+            { id: 2n, name: 'bob', balance: 20, active: true },
+        ]);
+
+        const arrayResult = (await pool.query({ text: 'SELECT id FROM accounts ORDER BY id', types, rowMode: 'array' })) as QueryResult;
+        expect(arrayResult.rows).toEqual([[1n], [2n]]);
+
+        // other queries keep the default parsers
+        const defaultResult = (await pool.query('SELECT id FROM accounts ORDER BY id LIMIT 1')) as QueryResult;
+        expect(defaultResult.rows).toEqual([{ id: '1' }]);
+    });
+
+    it('should prepare named statements once and reuse them', async () => {
+        const [client, release] = await connect(pool);
+        try {
+            const findByName = (name: string) =>
+                client.query({ name: 'find-account', text: 'SELECT id FROM accounts WHERE name = $1', values: [name] }) as Promise<QueryResult>;
+
+            expect((await findByName('alice')).rows).toEqual([{ id: '1' }]);
+            expect((await findByName('bob')).rows).toEqual([{ id: '2' }]);
+
+            const prepared = (await client.query('SELECT name, statement FROM pg_prepared_statements')) as QueryResult;
+            expect(prepared.rows).toEqual([{ name: 'find-account', statement: 'SELECT id FROM accounts WHERE name = $1' }]);
+
+            await expect(client.query({ name: 'find-account', text: 'SELECT 1' })).rejects.toThrow('Prepared statements must be unique');
+        } finally {
+            release();
+        }
+    });
+
+    it('should report errors of named statements and stay usable', async () => {
+        const insert = { name: 'insert-account', text: 'INSERT INTO accounts (id, name, balance) VALUES ($1, $2, $3)' };
+
+        const result = (await pool.query(insert, [3, 'carol', 0])) as QueryResult;
+        expect([result.command, result.rowCount]).toEqual(['INSERT', 1]);
+
+        await expect(pool.query(insert, [4, 'carol', 0])).rejects.toMatchObject({ code: '23505', query: insert.text, parameters: [4, 'carol', 0] });
+
+        const count = (await pool.query('SELECT count(*)::int AS total FROM accounts')) as QueryResult;
+        expect(count.rows).toEqual([{ total: 3 }]);
+    });
+
+    it('should pass config queries to callbacks', async () => {
+        const rows = await new Promise((resolve, reject) => {
+            pool.query({ text: 'SELECT name FROM accounts WHERE id = $1', values: [2] }, undefined, (error, result) =>
+                error ? reject(error) : resolve((result as { rows: unknown[] }).rows),
+            );
+        });
+
+        expect(rows).toEqual([{ name: 'bob' }]);
+    });
+});
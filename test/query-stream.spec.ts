@@ -0,0 +1,100 @@
+import { DataSource, EntitySchema } from 'typeorm';
+import type { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type PGliteClient, PGliteDriver, type PGlitePool } from '../src/pglite-driver.js';
+import { PGliteQueryStream } from '../src/pglite-query-stream.js';
+
+const ReadingSchema = new EntitySchema<{ id: number; value: number }>({
+    name: 'Reading',
+    tableName: 'reading',
+    columns: {
+        id: { primary: true, type: 'int' },
+        value: { type: 'int' },
+    },
+});
+
+const connect = (pool: PGlitePool) =>
+    new Promise<{ client: PGliteClient; release: () => void }>((resolve, reject) =>
+        pool.connect((error, client, release) => (error ? reject(error) : resolve({ client: client as PGliteClient, release }))),
+    );
+
+describe('Query streams', () => {
+    let dataSource: DataSource;
+    let pool: PGlitePool;
+
+    beforeEach(async () => {
+        dataSource = new DataSource({
+            type: 'postgres',
+            driver: PGliteDriver(),
+            entities: [ReadingSchema],
+            synchronize: true,
+            logging: false,
+        });
+
+        await dataSource.initialize();
+        pool = (dataSource.driver as PostgresDriver).master as PGlitePool;
+        await dataSource.query('INSERT INTO reading (id, value) SELECT i, i * 2 FROM generate_series(1, 1000) i');
+    });
+
+    afterEach(async () => {
+        if (dataSource.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should stream raw results through QueryRunner.stream', async () => {
+        const queryRunner = dataSource.createQueryRunner();
+        try {
+            const stream = await queryRunner.stream('SELECT id FROM reading WHERE value > $1 ORDER BY id', [100]);
+            const ids: number[] = [];
+            for await (const row of stream) ids.push(row.id);
+
+            expect(ids).toHaveLength(950);
+            expect(ids[0]).toBe(51);
+        } finally {
+            await queryRunner.release();
+        }
+    });
+
+    it('should stream a query builder inside a transaction', async () => {
+        await dataSource.transaction(async manager => {
+            const stream = await manager.createQueryBuilder(ReadingSchema, 'reading').where('reading.id <= :max', { max: 10 }).orderBy('reading.id').stream();
+            const rows = await stream.toArray();
+
+            expect(rows.map(row => row.reading_id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+        });
+    });
+
+    it('should fetch in batches and close the cursor when destroyed early', async () => {
+        const { client, release } = await connect(pool);
+        try {
+            const stream = client.query(new PGliteQueryStream('SELECT * FROM reading ORDER BY id', [], { batchSize: 10 }));
+            const ids: number[] = [];
+            for await (const row of stream) {
+                ids.push(row.id);
+                if (ids.length === 15) break;
+            }
+
+            expect(ids).toEqual(Array.from({ length: 15 }, (_, index) => index + 1));
+            // breaking out of the loop destroys the stream, the cursor is closed before 'close' is emitted
+            if (!stream.closed) await new Promise(resolve => stream.once('close', resolve));
+
+            const cursors = (await client.query(`SELECT name FROM pg_cursors WHERE name <> ''`)) as { rows: unknown[] };
+            expect(cursors.rows).toEqual([]);
+        } finally {
+            release();
+        }
+    });
+
+    it('should emit query errors on the stream', async () => {
+        const { client, release } = await connect(pool);
+        try {
+            const stream = client.query(new PGliteQueryStream('SELECT * FROM missing_table'));
+
+            await expect(stream.toArray()).rejects.toMatchObject({ code: '42P01' });
+            expect(((await client.query('SELECT 1 AS ok')) as { rows: unknown[] }).rows).toEqual([{ ok: 1 }]);
+        } finally {
+            release();
+        }
+    });
+});
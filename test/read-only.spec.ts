@@ -0,0 +1,110 @@
+import { DataSource, EntitySchema, type MigrationInterface, type QueryRunner } from 'typeorm';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { PGliteDriver } from '../src/pglite-driver.js';
+
+const NoteSchema = new EntitySchema<{ id: number; text: string }>({
+    name: 'Note',
+    tableName: 'note',
+    columns: {
+        id: { primary: true, type: 'int', generated: true },
+        text: { type: 'text' },
+    },
+});
+
+class AddArchive implements MigrationInterface {
+    public name = 'AddArchive1700000000000';
+
+    public async up(queryRunner: QueryRunner) {
+        await queryRunner.query('CREATE TABLE archive (id INT PRIMARY KEY)');
+    }
+
+    public async down(queryRunner: QueryRunner) {
+        await queryRunner.query('DROP TABLE archive');
+    }
+}
+
+describe('Read-only mode', () => {
+    let data: Blob;
+    let dataSource: DataSource | undefined;
+
+    // the data dir a reporting tool would ship
+    beforeAll(async () => {
+        const driver = PGliteDriver();
+        const writable = new DataSource({ type: 'postgres', driver, entities: [NoteSchema], synchronize: true, logging: false });
+        await writable.initialize();
+        await writable.getRepository(NoteSchema).save([{ text: 'first' }, { text: 'second' }]);
+        await writable.query('CREATE SEQUENCE report_number');
+        data = (await driver.snapshot()).data;
+        await writable.destroy();
+    });
+
+    const initialize = async (options: { synchronize?: boolean; migrations?: (new () => MigrationInterface)[] } = {}) => {
+        const driver = PGliteDriver({ loadDataDir: data }, { readOnly: true });
+        dataSource = new DataSource({ type: 'postgres', driver, entities: [NoteSchema], logging: false, ...options });
+        await dataSource.initialize();
+        return dataSource;
+    };
+
+    afterEach(async () => {
+        if (dataSource?.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should read from the database', async () => {
+        const dataSource = await initialize();
+        const notes = await dataSource.getRepository(NoteSchema).find({ order: { id: 'ASC' } });
+
+        expect(notes.map(({ text }) => text)).toEqual(['first', 'second']);
+        expect(await dataSource.query('SHOW default_transaction_read_only')).toEqual([{ default_transaction_read_only: 'on' }]);
+    });
+
+    it('should reject writes before they run', async () => {
+        const dataSource = await initialize();
+        const repository = dataSource.getRepository(NoteSchema);
+
+        await expect(repository.save({ text: 'third' })).rejects.toMatchObject({
+            code: '25006',
+            message: 'cannot execute INSERT in a read-only transaction',
+            hint: 'the database was opened with the readOnly driver option',
+        });
+        await expect(repository.delete({ id: 1 })).rejects.toMatchObject({ code: '25006' });
+        await expect(dataSource.query('WITH removed AS (DELETE FROM note RETURNING id) SELECT count(*) FROM removed')).rejects.toMatchObject({ code: '25006' });
+        await expect(dataSource.query("EXPLAIN ANALYZE UPDATE note SET text = 'changed'")).rejects.toMatchObject({ code: '25006' });
+        await expect(dataSource.query('SELECT * INTO note_copy FROM note')).rejects.toMatchObject({ code: '25006' });
+
+        // none of the statements of a rejected query run
+        await expect(dataSource.query("SET application_name = 'changed'; TRUNCATE note")).rejects.toMatchObject({ code: '25006' });
+        expect(await dataSource.query('SHOW application_name')).toEqual([{ application_name: '' }]);
+        expect(await repository.count()).toBe(2);
+    });
+
+    it('should leave writes hidden in reads to postgres', async () => {
+        const dataSource = await initialize();
+
+        await expect(dataSource.query("SELECT nextval('report_number')")).rejects.toMatchObject({
+            code: '25006',
+            message: 'cannot execute nextval() in a read-only transaction',
+        });
+        expect(await dataSource.query('EXPLAIN SELECT * FROM note')).toHaveLength(1);
+    });
+
+    it('should fail synchronize on its first schema change', async () => {
+        const Extended = new EntitySchema({ ...NoteSchema.options, columns: { ...NoteSchema.options.columns, archived: { type: 'boolean', default: false } } });
+        const driver = PGliteDriver({ loadDataDir: data }, { readOnly: true });
+        dataSource = new DataSource({ type: 'postgres', driver, entities: [Extended], synchronize: true, logging: false });
+
+        await expect(dataSource.initialize()).rejects.toThrow(
+            "cannot execute ALTER in a read-only transaction: the readOnly driver option doesn't allow schema changes, turn off synchronize and migrationsRun for DataSources using it",
+        );
+    });
+
+    it('should fail migrations', async () => {
+        const dataSource = await initialize({ migrations: [AddArchive] });
+
+        await expect(dataSource.runMigrations()).rejects.toMatchObject({
+            code: '25006',
+            message: expect.stringContaining('turn off synchronize and migrationsRun'),
+        });
+    });
+});
@@ -0,0 +1,170 @@
+import { DataSource, EntitySchema } from 'typeorm';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PGliteDriver, type PGliteDriverOptions } from '../src/pglite-driver.js';
+import type { ReplicationOptions } from '../src/replication.js';
+
+const NoteSchema = new EntitySchema<{ id: number; text: string }>({
+    name: 'Note',
+    tableName: 'note',
+    columns: {
+        id: { primary: true, type: 'int', generated: true },
+        text: { type: 'text' },
+    },
+});
+
+describe('Replication', { timeout: 30_000 }, () => {
+    let dataSource: DataSource | undefined;
+
+    const initialize = async (replication: ReplicationOptions, driverOptions: PGliteDriverOptions = {}) => {
+        const driver = PGliteDriver(undefined, { ...driverOptions, replication });
+        dataSource = new DataSource({
+            type: 'postgres',
+            driver,
+            replication: { master: {}, slaves: [{ host: 'replica' }, { host: 'replica' }] },
+            entities: [NoteSchema],
+            synchronize: true,
+            logging: false,
+        });
+        await dataSource.initialize();
+        return { driver, dataSource };
+    };
+
+    // repository reads go to a slave
+    const notes = async (dataSource: DataSource) => (await dataSource.getRepository(NoteSchema).find({ order: { id: 'ASC' } })).map(({ text }) => text);
+
+    afterEach(async () => {
+        if (dataSource?.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should read the writes of the master from the slaves right away', async () => {
+        const { dataSource } = await initialize({});
+        await dataSource.getRepository(NoteSchema).save({ text: 'written to the master' });
+
+        expect(await notes(dataSource)).toEqual(['written to the master']);
+    });
+
+    it('should reject writes through a slave', async () => {
+        const { dataSource } = await initialize({});
+        const slave = dataSource.createQueryRunner('slave');
+        try {
+            await expect(slave.query("INSERT INTO note (text) VALUES ('written to a slave')")).rejects.toMatchObject({ code: '25006' });
+            await slave.startTransaction();
+            await expect(slave.query('DELETE FROM note')).rejects.toMatchObject({ code: '25006' });
+            await slave.rollbackTransaction();
+        } finally {
+            await slave.release();
+        }
+
+        // the master's session is writable again once the slave is released
+        await dataSource.query("INSERT INTO note (text) VALUES ('written to the master')");
+        expect(await notes(dataSource)).toEqual(['written to the master']);
+    });
+
+    it('should keep the roles of each DataSource sharing the driver', async () => {
+        const { driver, dataSource } = await initialize({});
+        const second = new DataSource({
+            type: 'postgres',
+            driver,
+            replication: { master: {}, slaves: [{ host: 'replica' }] },
+            entities: [NoteSchema],
+            logging: false,
+        });
+        await second.initialize();
+        try {
+            await dataSource.query("INSERT INTO note (text) VALUES ('through the first master')");
+            await second.query("INSERT INTO note (text) VALUES ('through the second master')");
+
+            for (const source of [dataSource, second]) {
+                expect(await notes(source)).toEqual(['through the first master', 'through the second master']);
+                const slave = source.createQueryRunner('slave');
+                try {
+                    await expect(slave.query("INSERT INTO note (text) VALUES ('written to a slave')")).rejects.toMatchObject({ code: '25006' });
+                } finally {
+                    await slave.release();
+                }
+            }
+        } finally {
+            await second.destroy();
+        }
+
+        await dataSource.query("INSERT INTO note (text) VALUES ('after the second is gone')");
+        expect(await notes(dataSource)).toHaveLength(3);
+    });
+
+    it('should tell the slaves apart by the credentials they are created with', async () => {
+        const driver = PGliteDriver(undefined, { replication: { isReplica: ({ user }) => user === 'reader' } });
+        dataSource = new DataSource({
+            type: 'postgres',
+            driver,
+            replication: { master: { username: 'writer' }, slaves: [{ username: 'reader' }] },
+            entities: [NoteSchema],
+            synchronize: true,
+            logging: false,
+        });
+        await dataSource.initialize();
+
+        await dataSource.query("INSERT INTO note (text) VALUES ('written to the master')");
+        const slave = dataSource.createQueryRunner('slave');
+        try {
+            await expect(slave.query("INSERT INTO note (text) VALUES ('written to a slave')")).rejects.toMatchObject({ code: '25006' });
+        } finally {
+            await slave.release();
+        }
+    });
+
+    it('should keep a slave read-only inside a test transaction', async () => {
+        const { driver, dataSource } = await initialize({});
+        await driver.startTestTransaction();
+        try {
+            await dataSource.query("INSERT INTO note (text) VALUES ('uncommitted')");
+            const slave = dataSource.createQueryRunner('slave');
+            try {
+                await expect(slave.query("INSERT INTO note (text) VALUES ('written to a slave')")).rejects.toMatchObject({ code: '25006' });
+            } finally {
+                await slave.release();
+            }
+
+            await dataSource.query("INSERT INTO note (text) VALUES ('after the slave')");
+            expect(await notes(dataSource)).toEqual(['uncommitted', 'after the slave']);
+        } finally {
+            await driver.rollbackTestTransaction();
+        }
+        expect(await notes(dataSource)).toEqual([]);
+    });
+
+    it('should read stale data from lagging slaves until they sync', async () => {
+        const { driver, dataSource } = await initialize({ lag: 60_000 });
+        expect(await notes(dataSource)).toEqual([]);
+
+        await dataSource.getRepository(NoteSchema).save({ text: 'not replicated yet' });
+        expect(await notes(dataSource)).toEqual([]);
+        expect(await dataSource.query('SELECT text FROM note')).toEqual([{ text: 'not replicated yet' }]);
+
+        await driver.syncReplicas();
+        expect(await notes(dataSource)).toEqual(['not replicated yet']);
+    });
+
+    it('should catch up once the lag has passed', async () => {
+        const { dataSource } = await initialize({ lag: 50 });
+        expect(await notes(dataSource)).toEqual([]);
+
+        await dataSource.getRepository(NoteSchema).save({ text: 'replicated later' });
+        await vi.waitFor(async () => expect(await notes(dataSource)).toEqual(['replicated later']), { timeout: 10_000, interval: 100 });
+    });
+
+    it('should reject writes to a lagging slave', async () => {
+        const { dataSource } = await initialize({ lag: 60_000 });
+        const slave = dataSource.createQueryRunner('slave');
+        try {
+            await expect(slave.query("INSERT INTO note (text) VALUES ('written to a slave')")).rejects.toMatchObject({ code: '25006' });
+        } finally {
+            await slave.release();
+        }
+    });
+
+    it('should require the replication option to sync replicas', async () => {
+        await expect(PGliteDriver().syncReplicas()).rejects.toThrow('the driver has no replicas, enable them with the replication driver option');
+    });
+});
@@ -0,0 +1,92 @@
+import { DataSource } from 'typeorm';
+import { afterEach, describe, expect, it } from 'vitest';
+import { PGliteDriver, type PGliteDriverInstance } from '../src/pglite-driver.js';
+
+describe('Slow query EXPLAIN capture', () => {
+    let dataSource: DataSource;
+    let driver: PGliteDriverInstance;
+
+    const initialize = async (threshold: number) => {
+        driver = PGliteDriver(undefined, { explainSlowQueries: { threshold } });
+        dataSource = new DataSource({ type: 'postgres', driver, logging: false });
+        await dataSource.initialize();
+        await dataSource.query('CREATE TABLE item (id INT PRIMARY KEY, category TEXT NOT NULL)');
+    };
+
+    const reported = (sql: string) => driver.slowQueryReport().queries.find(query => query.sql === sql);
+
+    afterEach(async () => {
+        if (dataSource?.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should capture the plan of slow queries', async () => {
+        await initialize(0);
+        const select = 'SELECT * FROM item WHERE category = $1';
+
+        await dataSource.query(select, ['a']);
+        await dataSource.query(select, ['b']);
+
+        const query = reported(select);
+        expect(query).toMatchObject({ sql: select, command: 'SELECT', count: 2 });
+        expect(query?.totalDuration).toBeGreaterThanOrEqual(query?.maxDuration ?? Number.POSITIVE_INFINITY);
+        expect(query?.analyzed).toBe(true);
+        expect(query?.plan).toMatchObject({ Plan: { 'Node Type': 'Seq Scan', 'Relation Name': 'item' }, 'Execution Time': expect.any(Number) });
+
+        // statements EXPLAIN doesn't support are still reported
+        expect(reported('CREATE TABLE item (id INT PRIMARY KEY, category TEXT NOT NULL)')).toMatchObject({ command: 'CREATE', count: 1 });
+        expect(reported('CREATE TABLE item (id INT PRIMARY KEY, category TEXT NOT NULL)')?.plan).toBeUndefined();
+    });
+
+    it('should only plan writes instead of running them again', async () => {
+        await initialize(0);
+        await dataSource.query('CREATE TABLE event (id SERIAL PRIMARY KEY, name TEXT NOT NULL)');
+
+        await dataSource.query("INSERT INTO item (id, category) VALUES (1, 'a')");
+        await dataSource.transaction(async manager => {
+            await manager.query('INSERT INTO item (id, category) VALUES ($1, $2)', [2, 'b']);
+            await manager.query("UPDATE item SET category = 'c' WHERE id = 2");
+        });
+        await dataSource.query("INSERT INTO event (name) VALUES ('first')");
+        await dataSource.query("INSERT INTO event (name) VALUES ('second')");
+
+        expect(await dataSource.query('SELECT id, category FROM item ORDER BY id')).toEqual([
+            { id: 1, category: 'a' },
+            { id: 2, category: 'c' },
+        ]);
+        // explaining the inserts didn't draw from the sequence
+        expect(await dataSource.query('SELECT id, name FROM event ORDER BY id')).toEqual([
+            { id: 1, name: 'first' },
+            { id: 2, name: 'second' },
+        ]);
+        expect(reported("INSERT INTO item (id, category) VALUES (1, 'a')")).toMatchObject({
+            analyzed: false,
+            plan: { Plan: { 'Node Type': 'ModifyTable', Operation: 'Insert' } },
+        });
+        expect(reported('INSERT INTO item (id, category) VALUES ($1, $2)')).toMatchObject({ params: [2, 'b'], analyzed: false, plan: expect.any(Object) });
+        expect(reported("UPDATE item SET category = 'c' WHERE id = 2")).toMatchObject({ analyzed: false, plan: { Plan: { Operation: 'Update' } } });
+        expect(reported("UPDATE item SET category = 'c' WHERE id = 2")?.plan).not.toHaveProperty('Execution Time');
+    });
+
+    it('should only plan reads with side effects', async () => {
+        await initialize(0);
+        await dataSource.query('CREATE SEQUENCE ticket');
+
+        expect(await dataSource.query("SELECT nextval('ticket')::int AS ticket")).toEqual([{ ticket: 1 }]);
+        expect(await dataSource.query("SELECT nextval('ticket')::int AS ticket")).toEqual([{ ticket: 2 }]);
+
+        // nextval fails in the read-only transaction the plan is analyzed in
+        expect(reported("SELECT nextval('ticket')::int AS ticket")).toMatchObject({ count: 2, analyzed: false, plan: expect.any(Object) });
+    });
+
+    it('should only report queries over the threshold', async () => {
+        await initialize(60_000);
+
+        await dataSource.query('SELECT * FROM item');
+
+        expect(driver.slowQueryReport()).toEqual({ threshold: 60_000, queries: [] });
+        await dataSource.destroy();
+        expect(() => PGliteDriver().slowQueryReport()).toThrow('explainSlowQueries');
+    });
+});
@@ -0,0 +1,117 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryFS } from '@electric-sql/pglite';
+import { DataSource } from 'typeorm';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PGliteDriver, type PGliteDriverInstance } from '../src/pglite-driver.js';
+import { PGliteSnapshot } from '../src/snapshot.js';
+
+describe('PGliteDriver snapshots', () => {
+    let driver: PGliteDriverInstance;
+    let dataSource: DataSource;
+
+    beforeEach(async () => {
+        driver = PGliteDriver();
+        dataSource = new DataSource({
+            type: 'postgres',
+            driver,
+            synchronize: false,
+            logging: false,
+        });
+
+        await dataSource.initialize();
+        await dataSource.query(`CREATE TABLE books (id SERIAL PRIMARY KEY, title TEXT NOT NULL); INSERT INTO books (title) VALUES ('seeded');`);
+    });
+
+    afterEach(async () => {
+        if (dataSource.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should reset a live DataSource back to a snapshot', async () => {
+        const snapshot = await driver.snapshot();
+
+        await dataSource.query(`INSERT INTO books (title) VALUES ('added')`);
+        await dataSource.query('CREATE TABLE scratch (id INT)');
+
+        await driver.restore(snapshot);
+
+        expect(await dataSource.query('SELECT title FROM books')).toEqual([{ title: 'seeded' }]);
+        expect(await dataSource.query(`SELECT to_regclass('scratch') AS scratch`)).toEqual([{ scratch: null }]);
+
+        await dataSource.query(`INSERT INTO books (title) VALUES ('after restore')`);
+        expect(await dataSource.query('SELECT count(*)::int AS total FROM books')).toEqual([{ total: 2 }]);
+    });
+
+    it('should start new DataSources from a snapshot persisted to a file', async () => {
+        const directory = await mkdtemp(join(tmpdir(), 'pglite-typeorm-'));
+        const path = join(directory, 'snapshot.tar.gz');
+
+        try {
+            await (await driver.snapshot()).toFile(path);
+            const snapshot = await PGliteSnapshot.fromFile(path);
+
+            const forked = new DataSource({
+                type: 'postgres',
+                driver: PGliteDriver(snapshot.toPGliteOptions()),
+                synchronize: false,
+                logging: false,
+            });
+            await forked.initialize();
+
+            expect(await forked.query('SELECT title FROM books')).toEqual([{ title: 'seeded' }]);
+            await forked.destroy();
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('should restore a snapshot into a data dir on disk', { timeout: 30_000 }, async () => {
+        const directory = await mkdtemp(join(tmpdir(), 'pglite-typeorm-'));
+        const dataDir = join(directory, 'data');
+        const persistentDriver = PGliteDriver({ dataDir });
+        const persistent = new DataSource({ type: 'postgres', driver: persistentDriver, logging: false });
+
+        try {
+            await persistent.initialize();
+            await persistent.query("CREATE TABLE books (id SERIAL PRIMARY KEY, title TEXT NOT NULL); INSERT INTO books (title) VALUES ('seeded');");
+            const snapshot = await persistentDriver.snapshot();
+            await persistent.query("INSERT INTO books (title) VALUES ('added')");
+
+            await persistentDriver.restore(snapshot);
+            expect(await persistent.query('SELECT title FROM books')).toEqual([{ title: 'seeded' }]);
+            await persistent.destroy();
+
+            // the data dir holds the restored database from now on
+            const reopened = new DataSource({ type: 'postgres', driver: PGliteDriver({ dataDir }), logging: false });
+            await reopened.initialize();
+            expect(await reopened.query('SELECT title FROM books')).toEqual([{ title: 'seeded' }]);
+            await reopened.destroy();
+        } finally {
+            if (persistent.isInitialized) await persistent.destroy();
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('should reject restoring into file systems it does not know how to clear', async () => {
+        const customDriver = PGliteDriver({ fs: new MemoryFS() });
+        const custom = new DataSource({ type: 'postgres', driver: customDriver, logging: false });
+        await custom.initialize();
+
+        try {
+            await expect(customDriver.restore(await customDriver.snapshot())).rejects.toThrow(
+                'restoring a snapshot is only supported for in-memory databases and data dirs on disk',
+            );
+            expect(await custom.query('SELECT 1 AS ok')).toEqual([{ ok: 1 }]);
+        } finally {
+            await custom.destroy();
+        }
+    });
+
+    it('should require an initialized DataSource', async () => {
+        await dataSource.destroy();
+        await expect(driver.snapshot()).rejects.toThrow('no initialized DataSource is using this driver');
+    });
+});
@@ -0,0 +1,155 @@
+import { DataSource } from 'typeorm';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PGliteDriver, type PGliteDriverInstance } from '../src/pglite-driver.js';
+import { SqlImportError, type SqlImportProgress } from '../src/sql-import.js';
+
+// the shape of `pg_dump --format=plain --no-owner`
+const dump = `--
+-- PostgreSQL database dump
+--
+
+\\restrict a1b2c3
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET some_setting_of_a_newer_postgres = 0;
+SET client_min_messages = warning;
+
+--
+-- Name: author; Type: TABLE; Schema: public
+--
+
+CREATE TABLE public.author (
+    id integer NOT NULL,
+    name text NOT NULL
+);
+
+CREATE TABLE public.book (
+    id integer NOT NULL,
+    author_id integer NOT NULL,
+    title text
+);
+
+--
+-- Data for Name: author; Type: TABLE DATA; Schema: public
+--
+
+COPY public.author (id, name) FROM stdin;
+1	Ursula K. Le Guin
+2	Stanisław Lem
+\\.
+
+
+COPY public.book (id, author_id, title) FROM stdin;
+1	1	The Dispossessed
+2	2	Solaris
+3	2	\\N
+\\.
+
+
+ALTER TABLE ONLY public.author ADD CONSTRAINT author_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY public.book ADD CONSTRAINT book_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.author(id);
+
+--
+-- PostgreSQL database dump complete
+--
+
+\\unrestrict a1b2c3
+`;
+
+describe('SQL import', () => {
+    let driver: PGliteDriverInstance;
+    let dataSource: DataSource;
+
+    beforeEach(async () => {
+        driver = PGliteDriver();
+        dataSource = new DataSource({ type: 'postgres', driver, logging: false });
+        await dataSource.initialize();
+    });
+
+    afterEach(async () => {
+        if (dataSource.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should load a plain dump with COPY data', async () => {
+        const progress: SqlImportProgress[] = [];
+        const result = await driver.importSql(dump, { onProgress: event => progress.push(event) });
+
+        expect(result).toEqual({ statements: 14, copiedRows: 5 });
+        expect(await dataSource.query('SELECT b.title, a.name FROM book b JOIN author a ON a.id = b.author_id ORDER BY b.id')).toEqual([
+            { title: 'The Dispossessed', name: 'Ursula K. Le Guin' },
+            { title: 'Solaris', name: 'Stanisław Lem' },
+            { title: null, name: 'Stanisław Lem' },
+        ]);
+
+        expect(progress).toHaveLength(14);
+        expect(progress[0]).toEqual({ statement: 1, statements: 14, command: 'SET', line: 7 });
+        expect(progress.find(event => event.command === 'COPY')).toEqual({ statement: 11, statements: 14, command: 'COPY', line: 35 });
+        expect(progress.at(-1)).toEqual({ statement: 14, statements: 14, command: 'ALTER', line: 49 });
+    });
+
+    it('should put back the settings the dump changed', async () => {
+        const settings = "SELECT current_setting('search_path') AS search_path, current_setting('client_min_messages') AS client_min_messages";
+        const before = await dataSource.query(settings);
+        await driver.importSql(dump);
+
+        expect(await dataSource.query(settings)).toEqual(before);
+        expect(await dataSource.query('SELECT count(*)::int AS count FROM author')).toEqual([{ count: 2 }]);
+    });
+
+    it('should tell which statement failed and roll back the whole dump', async () => {
+        const failing = 'CREATE TABLE kept (id int);\n\n-- seed\nINSERT INTO kept VALUES (1);\nINSERT INTO missing VALUES (1);\n';
+        const error = await driver.importSql(failing).catch(error => error);
+
+        expect(error).toBeInstanceOf(SqlImportError);
+        expect(error).toMatchObject({ statement: 3, line: 5, sql: 'INSERT INTO missing VALUES (1)' });
+        expect(error.message).toBe('statement 3 of 3 (line 5) failed: relation "missing" does not exist');
+        expect(error.cause).toMatchObject({ code: '42P01' });
+        expect(await dataSource.query("SELECT to_regclass('kept') AS kept")).toEqual([{ kept: null }]);
+    });
+
+    it('should keep what ran before a failure without a single transaction', async () => {
+        const error = await driver.importSql('CREATE TABLE kept (id int);\nSELECT 1 / 0;\n', { singleTransaction: false }).catch(error => error);
+
+        expect(error).toMatchObject({ statement: 2, line: 2 });
+        expect(await dataSource.query("SELECT to_regclass('kept')::text AS kept")).toEqual([{ kept: 'kept' }]);
+    });
+
+    it('should leave backslash and COPY lines inside strings and function bodies alone', async () => {
+        const seed = `CREATE TABLE note (body text);
+
+CREATE FUNCTION public.add_note() RETURNS void LANGUAGE sql AS $body$
+INSERT INTO note VALUES ('from the function
+COPY note (body) FROM stdin;
+\\connect other')
+$body$;
+
+INSERT INTO note VALUES ('first line
+\\backslash line
+COPY note (body) FROM stdin;'), (E'it''s \\'escaped\\'
+\\.');
+SELECT public.add_note();
+`;
+        const result = await driver.importSql(seed);
+
+        expect(result).toEqual({ statements: 4, copiedRows: 0 });
+        expect(await dataSource.query('SELECT body FROM note')).toEqual([
+            { body: 'first line\n\\backslash line\nCOPY note (body) FROM stdin;' },
+            { body: "it's 'escaped'\n." },
+            { body: 'from the function\nCOPY note (body) FROM stdin;\n\\connect other' },
+        ]);
+    });
+
+    it('should reject COPY data missing its end marker', async () => {
+        const error = await driver.importSql('COPY public.author (id) FROM stdin;\n1\n2\n').catch(error => error);
+
+        expect(error).toBeInstanceOf(SqlImportError);
+        expect(error.message).toBe("the rows of the COPY at line 1 don't end with a \\. line");
+    });
+});
@@ -0,0 +1,37 @@
+import { bench, describe } from 'vitest';
+import { analyzeQuery, parseQuery } from '../src/statements.js';
+
+const typeormQueries = [
+    'SELECT "User"."id" AS "User_id", "User"."name" AS "User_name" FROM "users" "User" WHERE (("User"."id" = $1)) LIMIT 1',
+    'INSERT INTO "users"("name", "email", "isActive") VALUES ($1, $2, DEFAULT) RETURNING "id", "isActive", "createdAt"',
+    'UPDATE "users" SET "name" = $1, "updatedAt" = CURRENT_TIMESTAMP WHERE "id" IN ($2) RETURNING "updatedAt"',
+    'DELETE FROM "users" WHERE "id" = $1',
+];
+
+const parserOnlyQueries = [
+    'WITH updated AS (UPDATE "users" SET "isActive" = false WHERE "id" = $1 RETURNING "id") SELECT count(*) FROM updated',
+    'SELECT * FROM "current_schema"(); SELECT version();',
+    'START TRANSACTION',
+];
+
+const queries = [...typeormQueries, ...parserOnlyQueries];
+
+// run with `npm run bench`, the cached analysis is compared against parsing every query again
+describe('Statement analysis', () => {
+    bench('parsing every query', async () => {
+        for (const sqlQuery of queries) await parseQuery(sqlQuery);
+    });
+
+    bench(
+        'cached analysis',
+        async () => {
+            for (const sqlQuery of queries) await analyzeQuery(sqlQuery);
+        },
+        {
+            // fills the cache, so the measured runs are cache hits
+            setup: async () => {
+                for (const sqlQuery of queries) await analyzeQuery(sqlQuery);
+            },
+        },
+    );
+});
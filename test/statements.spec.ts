@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { analyzeQuery } from '../src/statements.js';
+
+const parseQuerySync = vi.hoisted(() => vi.fn());
+
+vi.mock('../src/runtime.js', async importOriginal => {
+    const runtime = await importOriginal<typeof import('../src/runtime.js')>();
+    return {
+        ...runtime,
+        importParser: async () => {
+            const parser = await runtime.importParser();
+            parseQuerySync.mockImplementation(parser.parseQuerySync);
+            return { ...parser, parseQuerySync };
+        },
+    };
+});
+
+describe('Statement analysis', () => {
+    it('should derive commands for single statements without the parser', async () => {
+        const analyzedQuery = await analyzeQuery('  update "users" SET "name" = $1');
+
+        expect(analyzedQuery.statements).toEqual([{ command: 'UPDATE' }]);
+    });
+
+    it('should cache parse results by sql text', async () => {
+        const sqlQuery = 'SELECT 1; SELECT 2';
+        const first = await analyzeQuery(sqlQuery);
+
+        expect(first.statements.map(statement => statement.command)).toEqual(['SELECT', 'SELECT']);
+        expect(await analyzeQuery(sqlQuery)).toBe(first);
+    });
+
+    it('should parse a repeated query only once', async () => {
+        const sqlQuery = 'SELECT * FROM "current_schema"(); SELECT version();';
+        parseQuerySync.mockClear();
+
+        for (let iteration = 0; iteration < 3; iteration++) await analyzeQuery(sqlQuery);
+
+        expect(parseQuerySync).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not parse single statements that take the fast path', async () => {
+        parseQuerySync.mockClear();
+
+        await analyzeQuery('DELETE FROM "users" WHERE "id" = $1');
+
+        expect(parseQuerySync).not.toHaveBeenCalled();
+    });
+});
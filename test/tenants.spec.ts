@@ -0,0 +1,138 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DataSource, EntitySchema } from 'typeorm';
+import { afterEach, describe, expect, it } from 'vitest';
+import { PGliteDriver, type PGliteDriverInstance, type PGliteDriverOptions } from '../src/pglite-driver.js';
+import type { TenantOptions } from '../src/tenants.js';
+
+const NoteSchema = new EntitySchema<{ id: number; text: string }>({
+    name: 'Note',
+    tableName: 'note',
+    columns: {
+        id: { primary: true, type: 'int', generated: true },
+        text: { type: 'text' },
+    },
+});
+
+describe('Tenant routing', { timeout: 60_000 }, () => {
+    let dataSource: DataSource | undefined;
+    let directory: string | undefined;
+
+    const initialize = async (tenants: TenantOptions, driverOptions: PGliteDriverOptions = {}) => {
+        const driver = PGliteDriver(undefined, { ...driverOptions, tenants });
+        dataSource = new DataSource({ type: 'postgres', driver, entities: [NoteSchema], synchronize: true, logging: false });
+        await dataSource.initialize();
+        return { driver, dataSource };
+    };
+
+    const notes = (driver: PGliteDriverInstance, dataSource: DataSource, tenant: string) =>
+        driver.runWithTenant(tenant, async () => (await dataSource.getRepository(NoteSchema).find({ order: { id: 'ASC' } })).map(({ text }) => text));
+
+    afterEach(async () => {
+        if (dataSource?.isInitialized) {
+            await dataSource.destroy();
+        }
+        if (directory) {
+            await rm(directory, { recursive: true, force: true });
+            directory = undefined;
+        }
+    });
+
+    it('should keep the data of every tenant apart', async () => {
+        const { driver, dataSource } = await initialize({ pglite: () => ({}) });
+        const repository = dataSource.getRepository(NoteSchema);
+
+        for (const tenant of ['acme', 'globex']) {
+            await driver.runWithTenant(tenant, async () => {
+                await dataSource.synchronize();
+                await repository.save({ text: `note of ${tenant}` });
+            });
+        }
+        await repository.save({ text: 'note without a tenant' });
+
+        expect(await notes(driver, dataSource, 'acme')).toEqual(['note of acme']);
+        expect(await notes(driver, dataSource, 'globex')).toEqual(['note of globex']);
+        expect((await repository.find()).map(({ text }) => text)).toEqual(['note without a tenant']);
+        expect(driver.openTenants()).toEqual(['acme', 'globex']);
+    });
+
+    it('should run transactions on the database of the tenant', async () => {
+        const { driver, dataSource } = await initialize({ pglite: () => ({}) });
+        await driver.runWithTenant('acme', () => dataSource.synchronize());
+
+        await driver.runWithTenant('acme', () =>
+            dataSource.transaction(async manager => {
+                await manager.save(NoteSchema, { text: 'committed' });
+            }),
+        );
+        await expect(
+            driver.runWithTenant('acme', () =>
+                dataSource.transaction(async manager => {
+                    await manager.save(NoteSchema, { text: 'rolled back' });
+                    throw new Error('rollback');
+                }),
+            ),
+        ).rejects.toThrow('rollback');
+
+        expect(await notes(driver, dataSource, 'acme')).toEqual(['committed']);
+    });
+
+    it('should close the least recently used tenant and reopen it from its data dir', async () => {
+        directory = await mkdtemp(join(tmpdir(), 'pglite-typeorm-tenants-'));
+        const root = directory;
+        const { driver, dataSource } = await initialize({ pglite: tenant => ({ dataDir: join(root, tenant) }), maxOpen: 2 });
+
+        for (const tenant of ['a', 'b', 'c']) {
+            await driver.runWithTenant(tenant, async () => {
+                await dataSource.synchronize();
+                await dataSource.getRepository(NoteSchema).save({ text: `note of ${tenant}` });
+            });
+        }
+        expect(driver.openTenants()).toEqual(['b', 'c']);
+
+        expect(await notes(driver, dataSource, 'a')).toEqual(['note of a']);
+        expect(driver.openTenants()).toEqual(['c', 'a']);
+    });
+
+    it('should keep a tenant open while a QueryRunner uses it', async () => {
+        const { driver, dataSource } = await initialize({ pglite: () => ({}), maxOpen: 1 });
+        await driver.runWithTenant('a', () => dataSource.synchronize());
+
+        const queryRunner = dataSource.createQueryRunner();
+        await driver.connectTenant(queryRunner, 'a');
+        try {
+            await queryRunner.startTransaction();
+            await queryRunner.manager.save(NoteSchema, { text: 'written by the query runner' });
+
+            await driver.runWithTenant('b', () => dataSource.query('SELECT 1'));
+            expect(driver.openTenants()).toEqual(['a', 'b']);
+
+            await queryRunner.commitTransaction();
+        } finally {
+            await queryRunner.release();
+        }
+
+        // no data dir, so the tenant starts over once it was closed
+        await driver.runWithTenant('b', () => dataSource.query('SELECT 1'));
+        expect(driver.openTenants()).toEqual(['b']);
+    });
+
+    it('should read the tenant from the tenant option', async () => {
+        let current: string | undefined;
+        const { driver, dataSource } = await initialize({ pglite: () => ({}), tenant: () => current });
+
+        current = 'acme';
+        await dataSource.synchronize();
+        await dataSource.getRepository(NoteSchema).save({ text: 'note of acme' });
+        current = undefined;
+
+        expect(await dataSource.getRepository(NoteSchema).count()).toBe(0);
+        expect(driver.openTenants()).toEqual(['acme']);
+    });
+
+    it('should require the tenants option to run with a tenant', () => {
+        const driver = PGliteDriver();
+        expect(() => driver.runWithTenant('acme', () => {})).toThrow('queries are not routed to tenants, enable it with the tenants driver option');
+    });
+});
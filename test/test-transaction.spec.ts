@@ -0,0 +1,75 @@
+import { DataSource, EntitySchema } from 'typeorm';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { PGliteDriver } from '../src/pglite-driver.js';
+import { useTestTransactions } from '../src/testing.js';
+
+const TodoSchema = new EntitySchema<{ id: number; title: string }>({
+    name: 'Todo',
+    tableName: 'todos',
+    columns: {
+        id: { primary: true, type: 'int', generated: true },
+        title: { type: 'varchar', unique: true },
+    },
+});
+
+describe('Per-test transactional rollback', () => {
+    const driver = PGliteDriver();
+    const dataSource = new DataSource({
+        type: 'postgres',
+        driver,
+        entities: [TodoSchema],
+        synchronize: true,
+        logging: false,
+    });
+
+    beforeAll(async () => {
+        await dataSource.initialize();
+    });
+
+    afterAll(async () => {
+        await dataSource.destroy();
+    });
+
+    useTestTransactions(driver, { beforeEach, afterEach });
+
+    it('should write inside the test transaction', async () => {
+        await dataSource.getRepository(TodoSchema).save({ title: 'first test' });
+        expect(await dataSource.getRepository(TodoSchema).count()).toBe(1);
+    });
+
+    it('should not see writes of the previous test', async () => {
+        expect(await dataSource.getRepository(TodoSchema).count()).toBe(0);
+    });
+
+    it('should turn application transactions into savepoints', async () => {
+        const repository = dataSource.getRepository(TodoSchema);
+
+        await dataSource.transaction(async manager => {
+            await manager.save(TodoSchema, { title: 'committed' });
+        });
+
+        await dataSource
+            .transaction(async manager => {
+                await manager.save(TodoSchema, { title: 'rolled back' });
+                throw new Error('rollback');
+            })
+            .catch(() => {});
+
+        await dataSource.transaction('SERIALIZABLE', async manager => {
+            await manager.transaction(async nested => {
+                await nested.save(TodoSchema, { title: 'nested' });
+            });
+        });
+
+        const titles = (await repository.find({ order: { id: 'ASC' } })).map(todo => todo.title);
+        expect(titles).toEqual(['committed', 'nested']);
+    });
+
+    it('should keep the outer transaction usable after a failing statement', async () => {
+        const repository = dataSource.getRepository(TodoSchema);
+        await repository.save({ title: 'duplicate' });
+
+        await expect(repository.insert({ title: 'duplicate' })).rejects.toThrow();
+        expect(await repository.count()).toBe(1);
+    });
+});
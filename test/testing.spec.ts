@@ -0,0 +1,88 @@
+import { existsSync } from 'node:fs';
+import { DataSource, EntitySchema } from 'typeorm';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PGliteDriverInstance } from '../src/pglite-driver.js';
+import { createTestDataSource, prepareTestTemplate, useTestDataSource } from '../src/testing.js';
+
+const TaskSchema = new EntitySchema<{ id: number; title: string }>({
+    name: 'Task',
+    tableName: 'task',
+    columns: {
+        id: { primary: true, type: 'int', generated: true },
+        title: { type: 'text' },
+    },
+});
+
+const createDataSource = (driver: PGliteDriverInstance) => new DataSource({ type: 'postgres', driver, entities: [TaskSchema], logging: false });
+
+const titles = async (dataSource: DataSource) => (await dataSource.getRepository(TaskSchema).find({ order: { id: 'ASC' } })).map(({ title }) => title);
+
+describe('Test databases', () => {
+    let teardown: () => Promise<void>;
+    let templatePath: string | undefined;
+
+    // what the global setup of the test runner does
+    beforeAll(async () => {
+        teardown = await prepareTestTemplate({
+            createDataSource,
+            setup: async dataSource => {
+                await dataSource.synchronize();
+                await dataSource.getRepository(TaskSchema).save({ title: 'seeded' });
+            },
+        });
+        templatePath = process.env.PGLITE_TYPEORM_TEMPLATE;
+    });
+
+    afterAll(async () => {
+        await teardown();
+        expect(process.env.PGLITE_TYPEORM_TEMPLATE).toBeUndefined();
+        expect(templatePath && existsSync(templatePath)).toBe(false);
+    });
+
+    describe('per test', () => {
+        const getDataSource = useTestDataSource(createDataSource, { beforeEach, afterEach });
+
+        it('should start from the migrated and seeded template', async () => {
+            await getDataSource().getRepository(TaskSchema).save({ title: 'added by the first test' });
+            expect(await titles(getDataSource())).toEqual(['seeded', 'added by the first test']);
+        });
+
+        it('should not see what other tests wrote', async () => {
+            expect(await titles(getDataSource())).toEqual(['seeded']);
+        });
+    });
+
+    describe('per file', () => {
+        const getDataSource = useTestDataSource(createDataSource, { beforeAll, afterAll });
+
+        it('should write to the DataSource of the file', async () => {
+            await getDataSource().getRepository(TaskSchema).save({ title: 'added by the file' });
+        });
+
+        it('should share it between the tests of the file', async () => {
+            expect(await titles(getDataSource())).toEqual(['seeded', 'added by the file']);
+        });
+    });
+
+    it('should give every caller a clone of its own', async () => {
+        const [first, second] = await Promise.all([createTestDataSource(createDataSource), createTestDataSource(createDataSource)]);
+        try {
+            await first.query('DELETE FROM task');
+            expect(await titles(first)).toEqual([]);
+            expect(await titles(second)).toEqual(['seeded']);
+        } finally {
+            await Promise.all([first.destroy(), second.destroy()]);
+        }
+    });
+
+    it('should ask for the template when the global setup did not prepare one', async () => {
+        vi.stubEnv('PGLITE_TYPEORM_TEMPLATE', undefined);
+        try {
+            await expect(createTestDataSource(createDataSource)).rejects.toThrow(
+                'no test template was prepared, call prepareTestTemplate() in the global setup of the test runner',
+            );
+        } finally {
+            vi.unstubAllEnvs();
+        }
+    });
+});
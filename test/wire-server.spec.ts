@@ -0,0 +1,116 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import pg from 'pg';
+import { DataSource } from 'typeorm';
+import { afterEach, describe, expect, it } from 'vitest';
+import { PGliteDriver, type PGliteDriverInstance } from '../src/pglite-driver.js';
+import type { WireServerOptions } from '../src/wire-server.js';
+
+describe('Wire protocol server', () => {
+    let dataSource: DataSource;
+    const clients: pg.Client[] = [];
+
+    const initialize = async (server: WireServerOptions) => {
+        const driver = PGliteDriver(undefined, { server });
+        dataSource = new DataSource({ type: 'postgres', driver, logging: false });
+        await dataSource.initialize();
+        await dataSource.query('CREATE TABLE item (id INT PRIMARY KEY, name TEXT)');
+        return driver;
+    };
+
+    const connect = async (config: pg.ClientConfig) => {
+        const client = new pg.Client({ user: 'postgres', password: 'postgres', database: 'postgres', ...config });
+        clients.push(client);
+        await client.connect();
+        return client;
+    };
+
+    const connectTcp = async (driver: PGliteDriverInstance) => {
+        const { address, port } = driver.serverAddress() as AddressInfo;
+        return connect({ host: address, port });
+    };
+
+    afterEach(async () => {
+        await Promise.all(clients.splice(0).map(client => client.end().catch(() => {})));
+        if (dataSource?.isInitialized) {
+            await dataSource.destroy();
+        }
+    });
+
+    it('should serve the database of the DataSource', async () => {
+        const driver = await initialize({ port: 0 });
+        await dataSource.query('INSERT INTO item VALUES (1, $1)', ['from typeorm']);
+
+        const client = await connectTcp(driver);
+        expect((await client.query('SELECT name FROM item WHERE id = $1', [1])).rows).toEqual([{ name: 'from typeorm' }]);
+
+        await client.query('INSERT INTO item VALUES (2, $1)', ['from psql']);
+        expect(await dataSource.query('SELECT name FROM item ORDER BY id')).toEqual([{ name: 'from typeorm' }, { name: 'from psql' }]);
+    });
+
+    it('should hold back the application while a socket client is in a transaction', async () => {
+        const driver = await initialize({ port: 0 });
+        const client = await connectTcp(driver);
+
+        await client.query('BEGIN');
+        await client.query("INSERT INTO item VALUES (1, 'uncommitted')");
+
+        const order: string[] = [];
+        const query = dataSource.query('SELECT count(*)::int AS count FROM item').then(rows => {
+            order.push('application');
+            return rows;
+        });
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        order.push('commit');
+        await client.query('COMMIT');
+
+        expect(await query).toEqual([{ count: 1 }]);
+        expect(order).toEqual(['commit', 'application']);
+    });
+
+    it('should roll back the transaction of a client that disconnects', async () => {
+        const driver = await initialize({ port: 0 });
+        const client = await connectTcp(driver);
+
+        await client.query('BEGIN');
+        await client.query("INSERT INTO item VALUES (1, 'uncommitted')");
+        await client.end();
+
+        expect(await dataSource.query('SELECT count(*)::int AS count FROM item')).toEqual([{ count: 0 }]);
+        expect(await dataSource.query('SELECT 1 AS ok')).toEqual([{ ok: 1 }]);
+    });
+
+    it('should listen on a Unix socket', async () => {
+        const directory = await mkdtemp(join(tmpdir(), 'pglite-typeorm-'));
+        try {
+            const driver = await initialize({ path: join(directory, '.s.PGSQL.5432') });
+            expect(driver.serverAddress()).toBe(join(directory, '.s.PGSQL.5432'));
+
+            const client = await connect({ host: directory, port: 5432 });
+            expect((await client.query('SELECT 1 AS ok')).rows).toEqual([{ ok: 1 }]);
+
+            await client.end();
+            await dataSource.destroy();
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('should stop listening when the DataSource is destroyed', async () => {
+        const driver = await initialize({ port: 0 });
+        const { address, port } = driver.serverAddress() as AddressInfo;
+        await dataSource.destroy();
+
+        await expect(connect({ host: address, port })).rejects.toThrow();
+    });
+
+    it('should refuse modes socket traffic would get past', async () => {
+        const driver = await initialize({ port: 0 });
+
+        await expect(driver.startTestTransaction()).rejects.toThrow("test transactions can't be used with the server driver option");
+        expect(() => PGliteDriver(undefined, { server: { port: 0 }, readOnly: true })).toThrow("the readOnly and server driver options can't be combined");
+    });
+});
@@ -3,6 +3,8 @@ import { defineConfig } from 'vitest/config';
 export default defineConfig({
     test: {
         include: ['test/**/*.{test,spec}.ts'],
+        // every file boots PGlite, whose wasm takes a few seconds to compile on a busy machine
+        testTimeout: 15_000,
         coverage: {
             provider: 'istanbul',
             reporter: ['lcov'],